@@ -11,6 +11,20 @@ import llmsEnhancedRoutes from "./routes/llms-enhanced";
 import llmsGeneratorRoutes from "./routes/llms-generator";
 import contactRoutes from "./routes/contact";
 import authRoutes from "./routes/auth";
+import robotsTxtRoutes from "./routes/robots-txt";
+import llmsTxtRoutes from "./routes/llms-txt";
+import jobRoutes from "./routes/jobs";
+import siteRoutes from "./routes/sites";
+import scheduleRoutes from "./routes/schedules";
+import webhookRoutes from "./routes/webhooks";
+import apiKeyRoutes from "./routes/api-keys";
+import adminRoutes from "./routes/admin";
+import usageRoutes from "./routes/usage";
+import { authenticate } from "./middleware/auth";
+import { jobQueueService } from "./services/job-queue.service";
+import { schedulerService } from "./services/scheduler.service";
+import { webhookService } from "./services/webhook.service";
+import { llmProviderService } from "./services/llm-provider.service";
 import mongoose from "mongoose";
 // console.log("\uD83D\uDCAC contactRoutes type:", typeof contactRoutes);
 
@@ -28,7 +42,12 @@ if (!mongoUri) {
 }
 mongoose
   .connect(mongoUri)
-  .then(() => console.log("✅ Connected to MongoDB"))
+  .then(() => {
+    console.log("✅ Connected to MongoDB");
+    if (process.env.JOB_WORKER_ENABLED !== "false") jobQueueService.start();
+    if (schedulerService.enabled) schedulerService.start();
+    webhookService.start();
+  })
   .catch((err) => {
     console.error("❌ MongoDB connection error:", err);
     process.exit(1);
@@ -64,6 +83,7 @@ app.use(
       "Authorization",
       "X-Requested-With",
       "Accept",
+      "X-API-Key",
     ],
     optionsSuccessStatus: 200,
   })
@@ -119,6 +139,11 @@ const swaggerOptions = {
           in: "header",
           name: "X-API-Key",
         },
+        BearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+        },
       },
     },
   },
@@ -135,10 +160,11 @@ app.get("/health", (req, res) => {
     service: "TheLLMsTxt Backend",
     version: "1.0.0",
     features: {
-      ai_enrichment: !!process.env.XAI_API_KEY,
+      ai_enrichment: llmProviderService.describe().configured,
       automation: process.env.AUTOMATION_ENABLED === "true",
       analytics: process.env.ANALYTICS_ENABLED === "true",
     },
+    ai: llmProviderService.describe(),
   });
 });
 
@@ -209,11 +235,22 @@ app.get("/api/test-links", async (req, res) => {
 
 // API Documentation
 app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(specs));
+// JWT or X-API-Key; routes decide what needs a login or a scope
+app.use("/api", authenticate);
 app.use("/api", websiteAnalysisRoutes);
 app.use("/api", llmsEnhancedRoutes);
 app.use("/api", llmsGeneratorRoutes);
 app.use("/api", contactRoutes);
 app.use("/api", authRoutes);
+app.use("/api", robotsTxtRoutes);
+app.use("/api", llmsTxtRoutes);
+app.use("/api", jobRoutes);
+app.use("/api", siteRoutes);
+app.use("/api", scheduleRoutes);
+app.use("/api", webhookRoutes);
+app.use("/api", apiKeyRoutes);
+app.use("/api", usageRoutes);
+app.use("/api", adminRoutes);
 
 // Root endpoint
 app.get("/", (req, res) => {
@@ -227,13 +264,24 @@ app.get("/", (req, res) => {
       analyze_website: "/api/analyze-website",
       generate_llms_full: "/api/generate-llms-full",
       generate_markdown: "/api/generate-markdown",
+      generate_robots_txt: "/api/generate-robots-txt",
+      generate_llms_txt: "/api/generate-llms-txt",
+      validate_llms_txt: "/api/validate-llms-txt",
+      jobs: "/api/jobs",
+      site_diff: "/api/sites/:domain/diff",
+      schedules: "/api/schedules",
+      webhooks: "/api/webhooks",
+      api_keys: "/api/api-keys",
+      usage: "/api/usage",
+      admin_ai_cache: "/api/admin/ai-cache",
     },
     documentation: "/api-docs",
     features: {
-      ai_enrichment: !!process.env.GEMINI_API_KEY,
+      ai_enrichment: llmProviderService.describe().configured,
       automation: process.env.AUTOMATION_ENABLED === "true",
       analytics: process.env.ANALYTICS_ENABLED === "true",
     },
+    ai: llmProviderService.describe(),
   });
 });
 
@@ -266,6 +314,16 @@ app.use((req, res) => {
       "/api/analyze-website",
       "/api/generate-llms-full",
       "/api/generate-markdown",
+      "/api/generate-robots-txt",
+      "/api/generate-llms-txt",
+      "/api/validate-llms-txt",
+      "/api/jobs",
+      "/api/sites/:domain/diff",
+      "/api/schedules",
+      "/api/webhooks",
+      "/api/api-keys",
+      "/api/usage",
+      "/api/admin/ai-cache",
       "/api/test-links",
     ],
     documentation: "/api-docs",
@@ -0,0 +1,177 @@
+import { Request, Response, NextFunction } from "express";
+import jwt from "jsonwebtoken";
+import { API_KEY_SCOPES, ApiKeyScope } from "../types";
+import { apiKeyService } from "../services/api-key.service";
+
+// The caller as identified by `authenticate`
+export interface AuthUser {
+  email: string;
+  method: "jwt" | "api-key";
+  scopes: ApiKeyScope[];
+  apiKeyId?: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set for logged-in and API key callers; undefined for demo users
+      user?: AuthUser;
+      // Why a Bearer token was ignored, e.g. "Token expired"
+      authError?: string;
+    }
+  }
+}
+
+/**
+ * Email in a Bearer token signed with JWT_SECRET. Throws
+ * `jwt.TokenExpiredError` or `jwt.JsonWebTokenError` when it can't be used.
+ */
+export function verifyToken(token: string): string {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET || "changeme");
+  if (typeof decoded !== "object" || typeof decoded.email !== "string") {
+    throw new jwt.JsonWebTokenError("Token has no email");
+  }
+  return decoded.email;
+}
+
+/**
+ * Identify the caller from an `X-API-Key` header or a Bearer token and set
+ * `req.user`. Requests with neither continue as demo users. An unknown or
+ * revoked API key is rejected; an invalid or expired token is downgraded to
+ * demo mode with the reason in `req.authError`, so routes that need a login
+ * can report it.
+ */
+export async function authenticate(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const apiKey = req.headers["x-api-key"];
+  if (typeof apiKey === "string" && apiKey.trim()) {
+    let identity;
+    try {
+      identity = await apiKeyService.verify(apiKey.trim());
+    } catch (error) {
+      next(error);
+      return;
+    }
+    if (!identity) {
+      res.status(401).json({ success: false, error: "Invalid API key" });
+      return;
+    }
+    req.user = {
+      email: identity.email,
+      method: "api-key",
+      scopes: identity.scopes,
+      apiKeyId: identity.keyId,
+    };
+    next();
+    return;
+  }
+
+  const authHeader = req.headers["authorization"];
+  if (authHeader?.startsWith("Bearer ")) {
+    try {
+      const email = verifyToken(authHeader.replace("Bearer ", "").trim());
+      req.user = { email, method: "jwt", scopes: [...API_KEY_SCOPES] };
+    } catch (error) {
+      req.authError =
+        error instanceof jwt.TokenExpiredError
+          ? "Token expired"
+          : "Invalid token";
+      console.warn(`🔓 ${req.authError}, continuing as demo user`);
+    }
+  }
+  next();
+}
+
+/**
+ * Reject requests without a valid Bearer token or API key. Handlers behind
+ * it can rely on `req.user`.
+ */
+export function requireAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: req.authError || "Authentication required",
+    });
+    return;
+  }
+  next();
+}
+
+/**
+ * Reject API keys, for actions only a logged-in user may take
+ */
+export function requireLogin(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if (req.user?.method !== "jwt") {
+    res.status(req.user ? 403 : 401).json({
+      success: false,
+      error: req.user
+        ? "Not allowed with an API key"
+        : req.authError || "Authentication required",
+    });
+    return;
+  }
+  next();
+}
+
+/**
+ * Only logged-in users listed in ADMIN_EMAILS (comma-separated) get through
+ */
+export function requireAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const admins = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (req.user?.method !== "jwt") {
+    requireLogin(req, res, next);
+    return;
+  }
+  if (!admins.includes(req.user.email.toLowerCase())) {
+    res.status(403).json({ success: false, error: "Admin access required" });
+    return;
+  }
+  next();
+}
+
+/**
+ * Whether the caller may use `scope`. Logged-in users have every scope;
+ * anonymous callers have none.
+ */
+export function hasScope(req: Request, scope: ApiKeyScope): boolean {
+  return !!req.user && req.user.scopes.includes(scope);
+}
+
+/**
+ * Limit API keys to `scope`. Logged-in users pass, and so do anonymous
+ * callers, whom the routes serve as demo users.
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.user?.method === "api-key" && !hasScope(req, scope)) {
+      sendMissingScope(res, scope);
+      return;
+    }
+    next();
+  };
+}
+
+export function sendMissingScope(res: Response, scope: ApiKeyScope): void {
+  res.status(403).json({
+    success: false,
+    error: `API key is missing the "${scope}" scope`,
+  });
+}
@@ -0,0 +1,23 @@
+import mongoose from "mongoose";
+import { LLM_PROVIDERS } from "../types";
+
+// A stored AI enrichment result; MongoDB drops it once expiresAt passes
+const AICacheEntrySchema = new mongoose.Schema({
+  key: { type: String, required: true, unique: true }, // see AICacheService
+  provider: { type: String, enum: LLM_PROVIDERS, required: true },
+  model: { type: String, required: true },
+  promptVersion: { type: String, required: true },
+  contentHash: { type: String, required: true },
+  output: { type: mongoose.Schema.Types.Mixed, required: true },
+  hits: { type: Number, default: 0 },
+  createdAt: { type: Date, default: Date.now },
+  lastHitAt: { type: Date },
+  expiresAt: { type: Date, required: true },
+});
+
+AICacheEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+AICacheEntrySchema.index({ provider: 1, model: 1, promptVersion: 1 });
+
+export const AICacheEntryModel =
+  mongoose.models.AICacheEntry ||
+  mongoose.model("AICacheEntry", AICacheEntrySchema);
@@ -0,0 +1,23 @@
+import mongoose from "mongoose";
+import { LLM_PROVIDERS } from "../types";
+
+// Tokens used by one LLM call
+const AIUsageRecordSchema = new mongoose.Schema({
+  user: { type: String }, // email; unset for demo users
+  jobId: { type: String },
+  provider: { type: String, enum: LLM_PROVIDERS, required: true },
+  model: { type: String, required: true },
+  promptTokens: { type: Number, default: 0 },
+  completionTokens: { type: Number, default: 0 },
+  estimatedCost: { type: Number, default: 0 }, // USD
+  // The provider didn't report usage, so tokens were estimated from text
+  estimated: { type: Boolean, default: false },
+  createdAt: { type: Date, default: Date.now },
+});
+
+AIUsageRecordSchema.index({ user: 1, createdAt: -1 });
+AIUsageRecordSchema.index({ jobId: 1 });
+
+export const AIUsageRecordModel =
+  mongoose.models.AIUsageRecord ||
+  mongoose.model("AIUsageRecord", AIUsageRecordSchema);
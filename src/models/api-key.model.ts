@@ -0,0 +1,25 @@
+import mongoose from "mongoose";
+import { API_KEY_SCOPES } from "../types";
+
+// Key for programmatic access; only the SHA-256 of the key is stored
+const ApiKeySchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  name: { type: String, required: true },
+  prefix: { type: String, required: true }, // shown in listings
+  keyHash: { type: String, required: true, unique: true },
+  scopes: [{ type: String, enum: API_KEY_SCOPES }],
+  createdAt: { type: Date, default: Date.now },
+  lastUsedAt: { type: Date },
+  revokedAt: { type: Date },
+});
+
+ApiKeySchema.index({ userId: 1, createdAt: -1 });
+
+export type ApiKey = mongoose.InferSchemaType<typeof ApiKeySchema>;
+
+export const ApiKeyModel: mongoose.Model<ApiKey> =
+  mongoose.models.ApiKey || mongoose.model("ApiKey", ApiKeySchema);
@@ -1,15 +1,47 @@
 import mongoose from "mongoose";
 
+// Lifecycle of a background job; records saved by the SSE route are "completed"
+export const JOB_STATUSES = [
+  "queued",
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
 const CrawlResultSchema = new mongoose.Schema({
   url: { type: String, required: true },
   user: { type: String }, // email or user id if available
   sessionId: { type: String },
   timestamp: { type: Date, default: Date.now },
-  crawledData: { type: mongoose.Schema.Types.Mixed, required: true }, // store full crawl result as JSON
+  crawledData: { type: mongoose.Schema.Types.Mixed }, // store full crawl result as JSON (empty until a job completes)
   email: { type: String },
-  jobStatus: { type: String, default: "completed" }, // completed, pending, failed, etc.
+  jobStatus: { type: String, enum: JOB_STATUSES, default: "completed" },
+  // Background job fields
+  jobType: { type: String }, // analyze-website, llms-full, markdown
+  scheduleId: { type: String, index: true }, // set on scheduled runs
+  payload: { type: mongoose.Schema.Types.Mixed },
+  result: { type: mongoose.Schema.Types.Mixed },
+  error: { type: String },
+  progress: {
+    percent: { type: Number, default: 0 },
+    message: { type: String },
+  },
+  attempts: { type: Number, default: 0 },
+  maxAttempts: { type: Number, default: 3 },
+  runAfter: { type: Date, default: Date.now }, // retry backoff
+  lockedBy: { type: String }, // worker id holding the job
+  lockedAt: { type: Date }, // worker heartbeat
+  startedAt: { type: Date },
+  finishedAt: { type: Date },
 });
 
-export const CrawlResultModel =
+CrawlResultSchema.index({ jobStatus: 1, runAfter: 1 });
+
+export type CrawlRecord = mongoose.InferSchemaType<typeof CrawlResultSchema>;
+
+export const CrawlResultModel: mongoose.Model<CrawlRecord> =
   mongoose.models.CrawlResult ||
   mongoose.model("CrawlResult", CrawlResultSchema);
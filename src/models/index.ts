@@ -1,2 +1,7 @@
 export { UserModel } from "./user.model";
-export { CrawlResultModel } from "./crawl-result.model";
+export { CrawlResultModel, CrawlRecord } from "./crawl-result.model";
+export { ScheduleModel, Schedule } from "./schedule.model";
+export { WebhookModel, WebhookDeliveryModel } from "./webhook.model";
+export { ApiKeyModel, ApiKey } from "./api-key.model";
+export { AICacheEntryModel } from "./ai-cache.model";
+export { AIUsageRecordModel } from "./ai-usage.model";
@@ -0,0 +1,23 @@
+import mongoose from "mongoose";
+
+// Periodic llms.txt regeneration for one site; each run is a background job
+const ScheduleSchema = new mongoose.Schema({
+  url: { type: String, required: true },
+  user: { type: String, required: true }, // owner's email
+  cron: { type: String, required: true }, // e.g. "0 2 * * *"
+  timezone: { type: String, default: "UTC" },
+  enabled: { type: Boolean, default: true },
+  payload: { type: mongoose.Schema.Types.Mixed }, // analyze-website job payload
+  nextRunAt: { type: Date },
+  lastRunAt: { type: Date },
+  lastJobId: { type: String },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+ScheduleSchema.index({ enabled: 1, nextRunAt: 1 });
+
+export type Schedule = mongoose.InferSchemaType<typeof ScheduleSchema>;
+
+export const ScheduleModel: mongoose.Model<Schedule> =
+  mongoose.models.Schedule || mongoose.model("Schedule", ScheduleSchema);
@@ -4,6 +4,11 @@ const UserSchema = new mongoose.Schema({
   email: { type: String, required: true, unique: true },
   passwordHash: { type: String, required: true },
   createdAt: { type: Date, default: Date.now },
+  // Per-user AI usage limits; unset falls back to the AI_MONTHLY_* defaults
+  aiUsageCaps: {
+    monthlyTokens: { type: Number },
+    monthlyCost: { type: Number },
+  },
 });
 
 export const UserModel =
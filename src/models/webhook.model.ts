@@ -0,0 +1,42 @@
+import mongoose from "mongoose";
+import { WEBHOOK_EVENTS } from "../types";
+
+export const DELIVERY_STATUSES = ["pending", "delivered", "failed"] as const;
+
+// A user's endpoint for job lifecycle events
+const WebhookSchema = new mongoose.Schema({
+  user: { type: String, required: true }, // owner's email
+  url: { type: String, required: true },
+  events: [{ type: String, enum: WEBHOOK_EVENTS }],
+  secret: { type: String, required: true }, // HMAC key for signatures
+  enabled: { type: Boolean, default: true },
+  createdAt: { type: Date, default: Date.now },
+});
+
+WebhookSchema.index({ user: 1, enabled: 1 });
+
+// One event sent to one webhook, retried with backoff until it succeeds
+const WebhookDeliverySchema = new mongoose.Schema({
+  webhookId: { type: String, required: true },
+  user: { type: String, required: true },
+  event: { type: String, enum: WEBHOOK_EVENTS, required: true },
+  payload: { type: mongoose.Schema.Types.Mixed },
+  status: { type: String, enum: DELIVERY_STATUSES, default: "pending" },
+  attempts: { type: Number, default: 0 },
+  maxAttempts: { type: Number, default: 6 },
+  nextAttemptAt: { type: Date, default: Date.now },
+  lastStatusCode: { type: Number },
+  lastError: { type: String },
+  createdAt: { type: Date, default: Date.now },
+  deliveredAt: { type: Date },
+});
+
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+
+export const WebhookModel =
+  mongoose.models.Webhook || mongoose.model("Webhook", WebhookSchema);
+
+export const WebhookDeliveryModel =
+  mongoose.models.WebhookDelivery ||
+  mongoose.model("WebhookDelivery", WebhookDeliverySchema);
@@ -0,0 +1,89 @@
+import { Router, Request, Response } from "express";
+import { aiCacheService } from "../services/ai-cache.service";
+import { aiUsageService } from "../services/ai-usage.service";
+import { requireAdmin } from "../middleware/auth";
+import { AICachePurgeSchema, AIUsageCapsSchema } from "../types";
+
+const router = Router();
+
+router.use("/admin", requireAdmin);
+
+/**
+ * GET /api/admin/ai-cache
+ * Entry count and hit/miss counters of the AI enrichment cache
+ */
+router.get("/admin/ai-cache", async (req: Request, res: Response) => {
+  try {
+    const stats = await aiCacheService.stats();
+    res.json({ success: true, stats });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * DELETE /api/admin/ai-cache
+ * Purge cached AI results. `provider`, `model` and `promptVersion` query
+ * parameters narrow what is removed; without them everything goes.
+ */
+router.delete("/admin/ai-cache", async (req: Request, res: Response) => {
+  const validationResult = AICachePurgeSchema.safeParse(req.query);
+  if (!validationResult.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: validationResult.error.issues,
+    });
+    return;
+  }
+
+  try {
+    const deleted = await aiCacheService.purge(validationResult.data);
+    res.json({ success: true, deleted });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * PUT /api/admin/users/:email/ai-usage-caps
+ * Set a user's monthly AI token and cost caps; null restores the default
+ */
+router.put(
+  "/admin/users/:email/ai-usage-caps",
+  async (req: Request, res: Response) => {
+    const validationResult = AIUsageCapsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid request data",
+        details: validationResult.error.issues,
+      });
+      return;
+    }
+
+    try {
+      const caps = await aiUsageService.setCaps(
+        req.params.email,
+        validationResult.data
+      );
+      if (!caps) {
+        res.status(404).json({ success: false, error: "User not found" });
+        return;
+      }
+      res.json({ success: true, caps });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+);
+
+function sendError(res: Response, error: unknown): void {
+  console.error("❌ Admin request failed:", error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : "Unknown error",
+  });
+}
+
+export default router;
@@ -0,0 +1,80 @@
+import { Router, Request, Response } from "express";
+import { apiKeyService } from "../services/api-key.service";
+import { requireLogin } from "../middleware/auth";
+import { ApiKeyRequestSchema } from "../types";
+
+const router = Router();
+
+// Keys are managed from a browser session; a key can't mint other keys
+router.use("/api-keys", requireLogin);
+
+/**
+ * POST /api/api-keys
+ * Create a key with the given scopes. The key is only returned here; send
+ * it as the X-API-Key header.
+ */
+router.post("/api-keys", async (req: Request, res: Response) => {
+  const validationResult = ApiKeyRequestSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: validationResult.error.issues,
+    });
+    return;
+  }
+
+  try {
+    const apiKey = await apiKeyService.create(
+      req.user!.email,
+      validationResult.data
+    );
+    if (!apiKey) {
+      res.status(404).json({ success: false, error: "User not found" });
+      return;
+    }
+    res.status(201).json({ success: true, apiKey });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * GET /api/api-keys
+ * The caller's keys, including revoked ones, without the secret part
+ */
+router.get("/api-keys", async (req: Request, res: Response) => {
+  try {
+    const apiKeys = await apiKeyService.list(req.user!.email);
+    res.json({ success: true, apiKeys });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * DELETE /api/api-keys/:id
+ * Revoke a key
+ */
+router.delete("/api-keys/:id", async (req: Request, res: Response) => {
+  try {
+    const apiKey = await apiKeyService.revoke(req.user!.email, req.params.id);
+    if (!apiKey) {
+      res.status(404).json({ success: false, error: "API key not found" });
+      return;
+    }
+    res.json({ success: true, apiKey });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+function sendError(res: Response, error: unknown): void {
+  console.error("❌ API key request failed:", error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : "Unknown error",
+  });
+}
+
+export default router;
@@ -0,0 +1,122 @@
+import { Router, Request, Response } from "express";
+import { jobQueueService } from "../services/job-queue.service";
+import { llmProviderService } from "../services/llm-provider.service";
+import { ApiKeyScope, JobRequestSchema, JobType } from "../types";
+import { hasScope, requireAuth, sendMissingScope } from "../middleware/auth";
+
+const router = Router();
+
+// Jobs belong to the user who queued them
+router.use("/jobs", requireAuth);
+
+// API key scope needed to queue or cancel each job type
+const JOB_SCOPES: Record<JobType, ApiKeyScope> = {
+  "analyze-website": "analyze",
+  "llms-full": "generate",
+  markdown: "generate",
+};
+
+/**
+ * POST /api/jobs
+ * Queue a crawl or generation job; poll GET /api/jobs/:id for its status
+ */
+router.post("/jobs", async (req: Request, res: Response) => {
+  const validationResult = JobRequestSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: validationResult.error.issues,
+    });
+    return;
+  }
+
+  const request = validationResult.data;
+  if (!hasScope(req, JOB_SCOPES[request.type])) {
+    sendMissingScope(res, JOB_SCOPES[request.type]);
+    return;
+  }
+  const providerError = llmProviderService.validate(request.payload);
+  if (providerError) {
+    res.status(400).json({ success: false, error: providerError });
+    return;
+  }
+
+  try {
+    const email = req.user!.email;
+    const job = await jobQueueService.enqueue(request, { user: email, email });
+    res.status(202).json({ success: true, job });
+  } catch (error) {
+    console.error("❌ Failed to queue job:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * GET /api/jobs/:id
+ * Job status, progress and (once completed) its result
+ */
+router.get("/jobs/:id", async (req: Request, res: Response) => {
+  if (!hasScope(req, "read-history")) {
+    sendMissingScope(res, "read-history");
+    return;
+  }
+
+  try {
+    const job = await jobQueueService.getJob(req.params.id, req.user!.email);
+    if (!job) {
+      res.status(404).json({ success: false, error: "Job not found" });
+      return;
+    }
+    res.json({ success: true, job });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * DELETE /api/jobs/:id
+ * Cancel a queued or running job
+ */
+router.delete("/jobs/:id", async (req: Request, res: Response) => {
+  try {
+    const current = await jobQueueService.getJob(
+      req.params.id,
+      req.user!.email
+    );
+    if (current && !hasScope(req, JOB_SCOPES[current.type])) {
+      sendMissingScope(res, JOB_SCOPES[current.type]);
+      return;
+    }
+    const outcome = await jobQueueService.cancel(
+      req.params.id,
+      req.user!.email
+    );
+    if (!outcome) {
+      res.status(404).json({ success: false, error: "Job not found" });
+      return;
+    }
+    if (!outcome.cancelled) {
+      res.status(409).json({
+        success: false,
+        error: `Job already ${outcome.job.status}`,
+        job: outcome.job,
+      });
+      return;
+    }
+    res.json({ success: true, job: outcome.job });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+export default router;
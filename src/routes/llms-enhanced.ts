@@ -1,14 +1,22 @@
 import { Router, Request, Response } from "express";
 import { llmsFullService } from "../services/llms-full.service";
 import { markdownGeneratorService } from "../services/markdown-generator.service";
+import { llmProviderService } from "../services/llm-provider.service";
 import {
   LLMsFullPayloadSchema,
   LLMsFullGenerationResponse,
+  MarkdownGenerationRequestSchema,
   MarkdownGenerationResponse,
 } from "../types";
+import { requireScope } from "../middleware/auth";
 
 const router = Router();
 
+router.use(
+  ["/generate-llms-full", "/generate-markdown"],
+  requireScope("generate")
+);
+
 /**
  * POST /api/generate-llms-full
  * Generate comprehensive llms-full.txt content
@@ -38,9 +46,18 @@ router.post("/generate-llms-full", async (req: Request, res: Response) => {
 
     const payload = validationResult.data;
     // console.log("✅ Request validation passed");
+    const providerError = llmProviderService.validate(payload);
+    if (providerError) {
+      res.status(400).json({ success: false, error: providerError });
+      return;
+    }
 
     // Generate llms-full.txt
-    const result = await llmsFullService.generateLLMsFull(payload);
+    const result = await llmsFullService.generateLLMsFull(
+      payload,
+      undefined,
+      { user: req.user?.email }
+    );
 
     const totalTime = Date.now() - startTime;
     // console.log("✅ llms-full.txt generation completed:", {
@@ -71,7 +88,9 @@ router.post("/generate-llms-full", async (req: Request, res: Response) => {
 
 /**
  * POST /api/generate-markdown
- * Generate markdown versions of key pages
+ * Generate markdown versions of key pages. With `format: "zip"` (or
+ * `?format=zip`) the pages are downloaded as a ZIP archive instead, with the
+ * AI usage in the X-AI-Usage and X-AI-Stopped headers.
  */
 router.post("/generate-markdown", async (req: Request, res: Response) => {
   const startTime = Date.now();
@@ -80,20 +99,65 @@ router.post("/generate-markdown", async (req: Request, res: Response) => {
     // console.log("🚀 Starting markdown generation request");
     // console.log("📥 Request body:", req.body);
 
-    const { websiteUrl } = req.body;
+    const validationResult = MarkdownGenerationRequestSchema.safeParse({
+      ...req.body,
+      format: req.query.format || req.body?.format,
+    });
 
-    if (!websiteUrl) {
+    if (!validationResult.success) {
       res.status(400).json({
         success: false,
         files: [],
-        error: "websiteUrl is required",
+        error: "Invalid request data",
+        details: validationResult.error.issues,
       });
       return;
     }
 
+    const {
+      websiteUrl,
+      format,
+      llmsTxt,
+      llmsFullTxt,
+      llmsTxtFormat,
+      aiProvider,
+      aiModel,
+    } = validationResult.data;
+    const providerError = llmProviderService.validate(validationResult.data);
+    if (providerError) {
+      res.status(400).json({ success: false, files: [], error: providerError });
+      return;
+    }
+    const options = {
+      ai: { aiProvider, aiModel },
+      usage: { user: req.user?.email },
+    };
+
+    if (format === "zip") {
+      const { archive, aiUsage, aiStopped } =
+        await markdownGeneratorService.generateMarkdownArchive(websiteUrl, {
+          ...options,
+          llmsTxt,
+          llmsFullTxt,
+          llmsTxtFormat,
+        });
+      const host = new URL(websiteUrl).hostname.replace(/^www\./, "");
+      // The body is the archive, so the AI usage goes in headers
+      res.setHeader("X-AI-Usage", JSON.stringify(aiUsage));
+      if (aiStopped) res.setHeader("X-AI-Stopped", JSON.stringify(aiStopped));
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${host}-markdown.zip"`
+      );
+      res.send(archive);
+      return;
+    }
+
     // Generate markdown files
     const result = await markdownGeneratorService.generateMarkdownPages(
-      websiteUrl
+      websiteUrl,
+      options
     );
 
     const totalTime = Date.now() - startTime;
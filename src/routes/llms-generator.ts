@@ -1,8 +1,11 @@
 import { Router, Request, Response } from "express";
 import { webCrawlerService } from "../services/web-crawler.service";
+import { requireScope } from "../middleware/auth";
 
 const router = Router();
 
+router.use("/generate-llms-full", requireScope("generate"));
+
 /**
  * POST /api/generate-llms-full
  * Generate detailed llms-full.txt content with body content extraction
@@ -47,6 +50,7 @@ router.post("/generate-llms-full", async (req: Request, res: Response) => {
       filename: "llms-full.txt",
       totalPages: result.totalPages,
       totalWords: result.totalWords,
+      robotsSkippedPaths: result.robotsSkippedPaths,
     });
   } catch (error) {
     const totalTime = Date.now() - startTime;
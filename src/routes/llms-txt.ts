@@ -0,0 +1,166 @@
+import { Router, Request, Response } from "express";
+import axios from "axios";
+import { llmsTxtService } from "../services/llms-txt.service";
+import { webCrawlerService } from "../services/web-crawler.service";
+import {
+  LlmsTxtGenerationRequestSchema,
+  LlmsTxtGenerationResponse,
+  LlmsTxtValidationRequestSchema,
+  LlmsTxtValidationResponse,
+} from "../types";
+import { requireScope } from "../middleware/auth";
+
+const router = Router();
+
+router.use(
+  ["/generate-llms-txt", "/validate-llms-txt"],
+  requireScope("generate")
+);
+
+/**
+ * POST /api/generate-llms-txt
+ * Generate llms.txt from analyzed paths in the legacy or llmstxt.org layout
+ */
+router.post("/generate-llms-txt", (req: Request, res: Response) => {
+  const validationResult = LlmsTxtGenerationRequestSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: validationResult.error.issues,
+    });
+    return;
+  }
+
+  const request = validationResult.data;
+  const format = request.format || "legacy";
+
+  try {
+    const content = llmsTxtService.generate(
+      {
+        websiteData: {
+          title: request.title,
+          description: request.description,
+          url: request.websiteUrl,
+          pageMetadatas: request.pageMetadatas,
+          paths: request.paths.map((p) => p.path),
+        },
+        pathSelections: request.paths,
+        rules: request.paths.map((p) => ({
+          id: p.path,
+          userAgent: "*",
+          type: p.allow ? "Allow" : "Disallow",
+          path: p.path,
+        })),
+        selectedBots: request.bots,
+        aiGeneratedContent: request.aiGeneratedContent,
+        enhancedFeatures: { aiEnrichment: request.aiEnrichment },
+        websiteUrl: request.websiteUrl,
+      },
+      format
+    );
+
+    const response: LlmsTxtGenerationResponse = {
+      success: true,
+      content,
+      filename: "llms.txt",
+      format,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("❌ llms.txt generation failed:", error);
+    res.status(500).json({
+      success: false,
+      content: "",
+      filename: "",
+      format,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * POST /api/validate-llms-txt
+ * Parse an llms.txt (by URL or raw content) and report spec violations.
+ * Linked URLs are checked against the paths found by crawling the site.
+ */
+router.post("/validate-llms-txt", async (req: Request, res: Response) => {
+  const validationResult = LlmsTxtValidationRequestSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    res.status(400).json({
+      success: false,
+      valid: false,
+      issues: [],
+      error: "Invalid request data",
+      details: validationResult.error.issues,
+    });
+    return;
+  }
+
+  const { url, websiteUrl, checkLinks = true, maxPages = 50 } =
+    validationResult.data;
+  let content = validationResult.data.content;
+
+  try {
+    if (url) {
+      // A bare site URL means the conventional /llms.txt location
+      const llmsTxtUrl =
+        new URL(url).pathname === "/" ? new URL("/llms.txt", url).href : url;
+      const fetched = await axios.get(llmsTxtUrl, {
+        timeout: 10000,
+        headers: { "User-Agent": "TheLLMsTxt-Crawler/1.0" },
+        responseType: "text",
+        validateStatus: () => true,
+      });
+      if (fetched.status < 200 || fetched.status >= 300) {
+        res.status(422).json({
+          success: false,
+          valid: false,
+          issues: [],
+          error: `Could not fetch ${llmsTxtUrl} (HTTP ${fetched.status})`,
+        });
+        return;
+      }
+      content = String(fetched.data);
+    }
+
+    const { document, issues } = llmsTxtService.validate(content || "");
+    const response: LlmsTxtValidationResponse = {
+      success: true,
+      valid: false,
+      document,
+      issues,
+    };
+
+    const siteUrl = websiteUrl || (url ? new URL(url).origin : undefined);
+    if (checkLinks && siteUrl) {
+      const websiteData = await webCrawlerService.extractWebsiteData(
+        siteUrl,
+        6,
+        undefined,
+        maxPages
+      );
+      response.issues = issues
+        .concat(llmsTxtService.checkLinks(document, siteUrl, websiteData.paths))
+        .sort((a, b) => a.line - b.line);
+      response.crawl = {
+        url: siteUrl,
+        pagesCrawled: websiteData.totalPagesCrawled,
+        pathsFound: websiteData.uniquePathsFound,
+      };
+    }
+
+    response.valid = !response.issues.some((i) => i.severity === "error");
+    res.json(response);
+  } catch (error) {
+    console.error("❌ llms.txt validation failed:", error);
+    res.status(500).json({
+      success: false,
+      valid: false,
+      issues: [],
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,75 @@
+import { Router, Request, Response } from "express";
+import { robotsTxtService } from "../services/robots-txt.service";
+import {
+  RobotsTxtGenerationRequestSchema,
+  RobotsTxtGenerationResponse,
+} from "../types";
+import { requireScope } from "../middleware/auth";
+
+const router = Router();
+
+router.use("/generate-robots-txt", requireScope("generate"));
+
+/**
+ * POST /api/generate-robots-txt
+ * Generate robots.txt groups for the selected LLM bots, optionally merged
+ * into the site's existing robots.txt
+ */
+router.post("/generate-robots-txt", async (req: Request, res: Response) => {
+  const validationResult = RobotsTxtGenerationRequestSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: validationResult.error.issues,
+    });
+    return;
+  }
+
+  const request = validationResult.data;
+
+  try {
+    let existing: string | undefined;
+    if (request.mergeWithExisting) {
+      if (request.existingRobotsTxt !== undefined) {
+        existing = request.existingRobotsTxt;
+      } else {
+        const fetched = await robotsTxtService.fetchRobotsTxt(
+          request.websiteUrl!,
+          "TheLLMsTxt-Crawler/1.0"
+        );
+        if (fetched.status >= 500) {
+          res.status(502).json({
+            success: false,
+            content: "",
+            filename: "",
+            merged: false,
+            error: `Existing robots.txt could not be fetched (HTTP ${fetched.status})`,
+          });
+          return;
+        }
+        // A site without robots.txt merges into an empty file
+        existing = fetched.content ?? "";
+      }
+    }
+
+    const response: RobotsTxtGenerationResponse = {
+      success: true,
+      content: robotsTxtService.generate(request, existing),
+      filename: "robots.txt",
+      merged: existing !== undefined,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("❌ robots.txt generation failed:", error);
+    res.status(500).json({
+      success: false,
+      content: "",
+      filename: "",
+      merged: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,185 @@
+import { Router, Request, Response } from "express";
+import { schedulerService } from "../services/scheduler.service";
+import { llmProviderService } from "../services/llm-provider.service";
+import { requireAuth, requireScope } from "../middleware/auth";
+import { ScheduleRequestSchema } from "../types";
+
+const router = Router();
+
+// Schedules queue analyze-website runs
+router.use("/schedules", requireAuth, requireScope("analyze"));
+
+/**
+ * POST /api/schedules
+ * Create a regeneration schedule for a site (cron defaults to CRON_SCHEDULE)
+ */
+router.post("/schedules", async (req: Request, res: Response) => {
+  const validationResult = ScheduleRequestSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: validationResult.error.issues,
+    });
+    return;
+  }
+  const request = validationResult.data;
+  const cronError =
+    request.cron &&
+    schedulerService.validateCron(request.cron, request.timezone);
+  if (cronError) {
+    res.status(400).json({ success: false, error: cronError });
+    return;
+  }
+  const providerError = llmProviderService.validate(request);
+  if (providerError) {
+    res.status(400).json({ success: false, error: providerError });
+    return;
+  }
+
+  try {
+    const schedule = await schedulerService.create(req.user!.email, request);
+    res.status(201).json({ success: true, schedule });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * GET /api/schedules
+ * The caller's schedules
+ */
+router.get("/schedules", async (req: Request, res: Response) => {
+  try {
+    const schedules = await schedulerService.list(req.user!.email);
+    res.json({ success: true, schedules });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * GET /api/schedules/:id
+ */
+router.get("/schedules/:id", async (req: Request, res: Response) => {
+  try {
+    const schedule = await schedulerService.get(req.user!.email, req.params.id);
+    if (!schedule) {
+      res.status(404).json({ success: false, error: "Schedule not found" });
+      return;
+    }
+    res.json({ success: true, schedule });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * PUT /api/schedules/:id
+ * Update any schedule fields; omitted fields keep their values
+ */
+router.put("/schedules/:id", async (req: Request, res: Response) => {
+  const validationResult = ScheduleRequestSchema.partial().safeParse(req.body);
+  if (!validationResult.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: validationResult.error.issues,
+    });
+    return;
+  }
+  const changes = validationResult.data;
+  const providerError = llmProviderService.validate(changes);
+  if (providerError) {
+    res.status(400).json({ success: false, error: providerError });
+    return;
+  }
+
+  try {
+    const current = await schedulerService.get(req.user!.email, req.params.id);
+    if (!current) {
+      res.status(404).json({ success: false, error: "Schedule not found" });
+      return;
+    }
+    const cronError = schedulerService.validateCron(
+      changes.cron || current.cron,
+      changes.timezone || current.timezone
+    );
+    if (cronError) {
+      res.status(400).json({ success: false, error: cronError });
+      return;
+    }
+    const schedule = await schedulerService.update(
+      req.user!.email,
+      req.params.id,
+      changes
+    );
+    res.json({ success: true, schedule });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * DELETE /api/schedules/:id
+ * Delete a schedule; runs already queued still complete
+ */
+router.delete("/schedules/:id", async (req: Request, res: Response) => {
+  try {
+    const deleted = await schedulerService.remove(
+      req.user!.email,
+      req.params.id
+    );
+    if (!deleted) {
+      res.status(404).json({ success: false, error: "Schedule not found" });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * POST /api/schedules/:id/run
+ * Queue a run now; poll GET /api/jobs/:id for its status
+ */
+router.post("/schedules/:id/run", async (req: Request, res: Response) => {
+  try {
+    const job = await schedulerService.runNow(req.user!.email, req.params.id);
+    if (!job) {
+      res.status(404).json({ success: false, error: "Schedule not found" });
+      return;
+    }
+    res.status(202).json({ success: true, job });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * GET /api/schedules/:id/runs
+ * Past and pending runs with their results, newest first
+ */
+router.get("/schedules/:id/runs", async (req: Request, res: Response) => {
+  try {
+    const runs = await schedulerService.runs(req.user!.email, req.params.id);
+    if (!runs) {
+      res.status(404).json({ success: false, error: "Schedule not found" });
+      return;
+    }
+    res.json({ success: true, runs });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+function sendError(res: Response, error: unknown): void {
+  console.error("❌ Schedule request failed:", error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : "Unknown error",
+  });
+}
+
+export default router;
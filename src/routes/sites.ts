@@ -0,0 +1,87 @@
+import { Router, Request, Response } from "express";
+import { crawlHistoryService } from "../services/crawl-history.service";
+import { crawlDiffService } from "../services/crawl-diff.service";
+import { CrawlDiffResponse, LlmsTxtFormatSchema } from "../types";
+import { requireAuth, requireScope } from "../middleware/auth";
+
+const router = Router();
+
+// Callers only see their own crawls
+router.use("/sites", requireAuth, requireScope("read-history"));
+
+/**
+ * GET /api/sites/:domain/crawls
+ * Stored crawls of a site, newest first, for picking diff endpoints
+ */
+router.get("/sites/:domain/crawls", async (req: Request, res: Response) => {
+  try {
+    const crawls = await crawlHistoryService.listSnapshots(
+      req.params.domain,
+      req.user!.email
+    );
+    res.json({ success: true, domain: req.params.domain, crawls });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+/**
+ * GET /api/sites/:domain/diff?from=&to=&format=
+ * Compare two crawls of a site by id. `to` defaults to the latest crawl and
+ * `from` to the crawl before `to`; `format` picks the llms.txt layout.
+ */
+router.get("/sites/:domain/diff", async (req: Request, res: Response) => {
+  const { domain } = req.params;
+  const fromId = (req.query.from as string) || undefined;
+  const toId = (req.query.to as string) || undefined;
+  const format = LlmsTxtFormatSchema.safeParse(req.query.format || "legacy");
+  if (!format.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: format.error.issues,
+    });
+    return;
+  }
+
+  try {
+    const user = req.user!.email;
+    const to = await crawlHistoryService.getSnapshot(domain, user, {
+      id: toId,
+    });
+    const from =
+      to &&
+      (await crawlHistoryService.getSnapshot(domain, user, {
+        id: fromId,
+        before: to.crawledAt,
+      }));
+    if (!from || !to) {
+      res.status(404).json({
+        success: false,
+        error:
+          fromId || toId
+            ? "Crawl not found for this site"
+            : "At least two crawls of this site are needed for a diff",
+      });
+      return;
+    }
+
+    const response: CrawlDiffResponse = {
+      success: true,
+      domain,
+      ...crawlDiffService.diff(from, to, format.data),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("❌ Crawl diff failed:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+export default router;
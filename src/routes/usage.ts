@@ -0,0 +1,41 @@
+import { Router, Request, Response } from "express";
+import { aiUsageService } from "../services/ai-usage.service";
+import { requireAuth } from "../middleware/auth";
+import { AIUsageQuerySchema } from "../types";
+
+const router = Router();
+
+router.use("/usage", requireAuth);
+
+/**
+ * GET /api/usage
+ * The caller's AI tokens and estimated cost for a month (`month=YYYY-MM`,
+ * default current), per model, with their monthly caps
+ */
+router.get("/usage", async (req: Request, res: Response) => {
+  const validationResult = AIUsageQuerySchema.safeParse(req.query);
+  if (!validationResult.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: validationResult.error.issues,
+    });
+    return;
+  }
+
+  try {
+    const usage = await aiUsageService.summary(
+      req.user!.email,
+      validationResult.data.month
+    );
+    res.json({ success: true, usage });
+  } catch (error) {
+    console.error("❌ Usage request failed:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+export default router;
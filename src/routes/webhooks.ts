@@ -0,0 +1,128 @@
+import { Router, Request, Response } from "express";
+import { webhookService } from "../services/webhook.service";
+import { requireAuth, requireScope } from "../middleware/auth";
+import { WebhookRequestSchema } from "../types";
+
+const router = Router();
+
+// Webhooks send job results and delivery logs, which API keys read with
+// read-history
+router.use("/webhooks", requireAuth, requireScope("read-history"));
+
+/**
+ * POST /api/webhooks
+ * Register an endpoint for job events. The signing secret is only returned
+ * here, so the caller has to keep it.
+ */
+router.post("/webhooks", async (req: Request, res: Response) => {
+  const validationResult = WebhookRequestSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: validationResult.error.issues,
+    });
+    return;
+  }
+
+  try {
+    const webhook = await webhookService.create(
+      req.user!.email,
+      validationResult.data
+    );
+    res.status(201).json({ success: true, webhook });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * GET /api/webhooks
+ * The caller's webhooks
+ */
+router.get("/webhooks", async (req: Request, res: Response) => {
+  try {
+    const webhooks = await webhookService.list(req.user!.email);
+    res.json({ success: true, webhooks });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * PUT /api/webhooks/:id
+ * Change the URL, events or enabled flag; the secret stays the same
+ */
+router.put("/webhooks/:id", async (req: Request, res: Response) => {
+  const validationResult = WebhookRequestSchema.partial().safeParse(req.body);
+  if (!validationResult.success) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: validationResult.error.issues,
+    });
+    return;
+  }
+
+  try {
+    const webhook = await webhookService.update(
+      req.user!.email,
+      req.params.id,
+      validationResult.data
+    );
+    if (!webhook) {
+      res.status(404).json({ success: false, error: "Webhook not found" });
+      return;
+    }
+    res.json({ success: true, webhook });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * DELETE /api/webhooks/:id
+ * Delete a webhook; its pending retries are dropped
+ */
+router.delete("/webhooks/:id", async (req: Request, res: Response) => {
+  try {
+    const deleted = await webhookService.remove(req.user!.email, req.params.id);
+    if (!deleted) {
+      res.status(404).json({ success: false, error: "Webhook not found" });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * GET /api/webhooks/:id/deliveries
+ * Recent deliveries with their status and attempts, newest first
+ */
+router.get("/webhooks/:id/deliveries", async (req: Request, res: Response) => {
+  try {
+    const deliveries = await webhookService.deliveries(
+      req.user!.email,
+      req.params.id
+    );
+    if (!deliveries) {
+      res.status(404).json({ success: false, error: "Webhook not found" });
+      return;
+    }
+    res.json({ success: true, deliveries });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+function sendError(res: Response, error: unknown): void {
+  console.error("❌ Webhook request failed:", error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : "Unknown error",
+  });
+}
+
+export default router;
@@ -0,0 +1,233 @@
+import express from "express";
+import http from "http";
+import jwt from "jsonwebtoken";
+import { AddressInfo } from "net";
+import mongoose from "mongoose";
+import websiteAnalysisRoutes from "./website-analysis";
+import { authenticate } from "../middleware/auth";
+import { CrawlResultModel } from "../models";
+import { webCrawlerService } from "../services/web-crawler.service";
+import { webhookService } from "../services/webhook.service";
+
+const PAGE_COUNT = 8;
+
+function page(index: number): string {
+  const links = Array.from(
+    { length: PAGE_COUNT },
+    (_, i) => `<a href="/page-${i}">Page ${i}</a>`
+  ).join("");
+  return `<!doctype html>
+<html>
+  <head><title>Page ${index}</title></head>
+  <body><main><h1>Page ${index}</h1><p>${"Static fixture content. ".repeat(20)}</p>${links}</main></body>
+</html>`;
+}
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () =>
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+    )
+  );
+}
+
+// Read an SSE response to the end and split it into its events
+function getEvents(
+  url: string,
+  headers: Record<string, string>
+): Promise<Array<{ event: string; data: any }>> {
+  return new Promise((resolve, reject) => {
+    http
+      .get(url, { headers }, (res) => {
+        let body = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk) => (body += chunk));
+        res.on("end", () =>
+          resolve(
+            body
+              .split("\n\n")
+              .filter(Boolean)
+              .map((block) => {
+                const [, event] = block.match(/^event: (.*)$/m)!;
+                const [, data] = block.match(/^data: (.*)$/m)!;
+                return { event, data: JSON.parse(data) };
+              })
+          )
+        );
+      })
+      .on("error", reject);
+  });
+}
+
+async function waitFor(
+  check: () => boolean,
+  timeoutMs = 5000
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+// The stored crawl a mocked CrawlResultModel.create hands back
+function savedRecord(doc: any) {
+  const record = { ...doc, _id: new mongoose.Types.ObjectId() };
+  return { ...record, toObject: () => record };
+}
+
+describe("GET /api/analyze-website", () => {
+  let site: http.Server;
+  let siteUrl: string;
+  let api: http.Server;
+  let apiUrl: string;
+
+  beforeAll(async () => {
+    site = http.createServer((req, res) => {
+      const match = req.url?.match(/^\/(?:page-(\d+))?$/);
+      if (!match) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(page(Number(match[1] ?? 0)));
+    });
+    siteUrl = await listen(site);
+
+    const app = express();
+    app.use("/api", authenticate);
+    app.use("/api", websiteAnalysisRoutes);
+    api = http.createServer(app);
+    apiUrl = await listen(api);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => api.close(resolve));
+    await new Promise((resolve) => site.close(resolve));
+  });
+
+  beforeEach(() => {
+    // No MongoDB here; the crawl just isn't saved
+    jest.spyOn(CrawlResultModel, "create").mockResolvedValue(undefined as any);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("runs an expired token as a demo crawl and warns about it", async () => {
+    const extract = jest.spyOn(webCrawlerService, "extractWebsiteData");
+    const token = jwt.sign(
+      { email: "user@example.com" },
+      process.env.JWT_SECRET || "changeme",
+      { expiresIn: -60 }
+    );
+
+    const events = await getEvents(
+      `${apiUrl}/api/analyze-website?url=${encodeURIComponent(
+        `${siteUrl}/`
+      )}&bots=GPTBot&incremental=false`,
+      { Authorization: `Bearer ${token}` }
+    );
+
+    expect(events[0]).toEqual({
+      event: "authWarning",
+      data: {
+        message:
+          "Token expired. Continuing in demo mode; log in again to analyze the full site.",
+      },
+    });
+    expect(extract).toHaveBeenCalledTimes(1);
+    expect(extract.mock.calls[0][3]).toBe(5);
+
+    const result = events.find((e) => e.event === "result");
+    expect(result?.data).toMatchObject({ demo: true });
+    expect(result?.data.demoMessage).toEqual(expect.any(String));
+    expect(result?.data.pageMetadatas.length).toBeGreaterThan(0);
+    expect(result?.data.pageMetadatas.length).toBeLessThanOrEqual(5);
+    expect(events.some((e) => e.event === "error")).toBe(false);
+  }, 30000);
+
+  describe("webhooks", () => {
+    const token = () =>
+      jwt.sign(
+        { email: "user@example.com" },
+        process.env.JWT_SECRET || "changeme"
+      );
+    const analyze = () =>
+      getEvents(
+        `${apiUrl}/api/analyze-website?url=${encodeURIComponent(
+          `${siteUrl}/`
+        )}&bots=GPTBot&incremental=false`,
+        { Authorization: `Bearer ${token()}` }
+      );
+    let emitted: Array<[string, any]>;
+
+    beforeEach(() => {
+      emitted = [];
+      jest
+        .spyOn(CrawlResultModel, "create")
+        .mockImplementation((async (doc: any) => savedRecord(doc)) as any);
+      jest
+        .spyOn(webhookService, "emit")
+        .mockImplementation(async (_user, event, data) => {
+          emitted.push([event, data]);
+        });
+    });
+
+    it("sends crawl.failed when a crawl fails", async () => {
+      jest
+        .spyOn(webCrawlerService, "extractWebsiteData")
+        .mockRejectedValue(new Error("Site unreachable"));
+      jest.spyOn(console, "error").mockImplementation(() => {});
+
+      const events = await analyze();
+      expect(events[events.length - 1]).toEqual({
+        event: "error",
+        data: { error: "Site unreachable" },
+      });
+
+      await waitFor(() => emitted.length === 1);
+      expect(emitted[0][0]).toBe("crawl.failed");
+      expect(emitted[0][1].job).toMatchObject({
+        status: "failed",
+        url: `${siteUrl}/`,
+        error: "Site unreachable",
+      });
+    }, 30000);
+
+    it("sends llms.changed when llms.txt differs from the previous crawl", async () => {
+      const update = jest
+        .spyOn(CrawlResultModel, "updateOne")
+        .mockResolvedValue({} as any);
+      const previousId = new mongoose.Types.ObjectId();
+      const query: any = {
+        sort: () => query,
+        select: () => query,
+        lean: async () => ({
+          _id: previousId,
+          result: { llmsTxt: "# Old site\n" },
+        }),
+      };
+      jest.spyOn(CrawlResultModel, "findOne").mockReturnValue(query);
+
+      await analyze();
+      await waitFor(() => emitted.length === 2);
+
+      expect(emitted.map(([event]) => event)).toEqual([
+        "crawl.completed",
+        "llms.changed",
+      ]);
+      const changed = emitted[1][1];
+      expect(changed.previousJobId).toBe(String(previousId));
+      expect(changed.diff).toContain("-# Old site");
+      expect(changed.llmsTxt).toContain("/page-1");
+      expect(update).toHaveBeenCalledWith(expect.anything(), {
+        "result.llmsTxt": changed.llmsTxt,
+      });
+    }, 30000);
+  });
+});
@@ -1,19 +1,28 @@
 import { Router, Request, Response } from "express";
 import { webCrawlerService } from "../services/web-crawler.service";
-import { xaiService, cleanupSessionRateLimiter } from "../services/ai.service";
+import { cleanupSessionRateLimiter } from "../services/ai.service";
+import { llmsTxtService } from "../services/llms-txt.service";
+import { websiteAnalysisService } from "../services/website-analysis.service";
+import { crawlHistoryService } from "../services/crawl-history.service";
+import { jobQueueService } from "../services/job-queue.service";
+import { llmProviderService } from "../services/llm-provider.service";
+import { emptyUsageTotals } from "../services/ai-usage.service";
 import {
   WebsiteAnalysisRequestSchema,
   WebsiteAnalysisResponse,
   AIGeneratedContent,
+  AIEnrichmentFailure,
 } from "../types";
 import { estimateCrawlTime } from "../services/llms-full.service";
 import nodemailer from "nodemailer";
 import { CrawlResultModel } from "../models";
-import jwt from "jsonwebtoken";
+import { requireScope } from "../middleware/auth";
 
 const router = Router();
 const activeSessions = new Map<string, AbortController>();
 
+router.use(["/analyze-website", "/cancel-analysis"], requireScope("analyze"));
+
 router.post("/analyze-website", (_req: Request, res: Response) => {
   res.status(410).json({
     success: false,
@@ -57,27 +66,23 @@ router.get("/analyze-website", async (req: Request, res: Response) => {
   const bots = (req.query.bots as string)?.split(",").filter(Boolean) || [];
   const aiEnrichment = req.query.aiEnrichment === "true";
   const sessionId = req.query.sessionId as string;
+  const llmsTxtFormat = (req.query.llmsTxtFormat as string) || undefined;
+  const incremental = req.query.incremental !== "false";
+  const crawlLimits = {
+    includePatterns: parseListParam(req.query.includePatterns),
+    excludePatterns: parseListParam(req.query.excludePatterns),
+    maxPages: parseNumberParam(req.query.maxPages),
+    timeBudgetMs: parseNumberParam(req.query.timeBudgetMs),
+    renderMode: (req.query.renderMode as string) || undefined,
+  };
+  const aiSelection = {
+    aiProvider: (req.query.aiProvider as string) || undefined,
+    aiModel: (req.query.aiModel as string) || undefined,
+  };
 
-  const authHeader = req.headers["authorization"];
-  let isAuthenticated = false;
-  let userEmail = null;
-  if (
-    authHeader &&
-    typeof authHeader === "string" &&
-    authHeader.startsWith("Bearer ")
-  ) {
-    // Optionally, you could verify the JWT here for extra security
-    isAuthenticated = true;
-    userEmail = authHeader.replace("Bearer ", "").trim();
-  }
-  // console.log(
-  //   "[AUTH CHECK] Authorization header:",
-  //   authHeader,
-  //   "| isAuthenticated:",
-  //   isAuthenticated,
-  //   "| NODE_ENV:",
-  //   process.env.NODE_ENV
-  // );
+  // Verified JWT or API key; invalid and expired tokens arrive as demo users
+  const user = req.user;
+  const isAuthenticated = !!user;
 
   const abortController = new AbortController();
   if (sessionId) activeSessions.set(sessionId, abortController);
@@ -86,11 +91,18 @@ router.get("/analyze-website", async (req: Request, res: Response) => {
     url,
     bots,
     aiEnrichment,
+    llmsTxtFormat,
+    incremental,
+    ...crawlLimits,
+    ...aiSelection,
   });
-  if (!validationResult.success) {
+  const providerError =
+    validationResult.success &&
+    llmProviderService.validate(validationResult.data);
+  if (!validationResult.success || providerError) {
     res.write(
       `event: error\ndata: ${JSON.stringify({
-        error: "Invalid request data",
+        error: providerError || "Invalid request data",
       })}\n\n`
     );
     res.end();
@@ -98,6 +110,26 @@ router.get("/analyze-website", async (req: Request, res: Response) => {
     return;
   }
 
+  const {
+    includePatterns,
+    excludePatterns,
+    maxPages,
+    timeBudgetMs,
+    renderMode,
+    aiProvider,
+    aiModel,
+  } = validationResult.data;
+  const previousCrawl = incremental
+    ? await crawlHistoryService.findPrevious(url, user?.email)
+    : undefined;
+  const crawlOptions = {
+    includePatterns,
+    excludePatterns,
+    timeBudgetMs,
+    renderMode,
+    previousPages: previousCrawl?.pages,
+  };
+
   const sendEvent = (event: string, data: any) => {
     res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
   };
@@ -113,6 +145,11 @@ router.get("/analyze-website", async (req: Request, res: Response) => {
   };
 
   try {
+    if (req.authError) {
+      sendEvent("authWarning", {
+        message: `${req.authError}. Continuing in demo mode; log in again to analyze the full site.`,
+      });
+    }
     sendEvent("progress", { progress: 1, message: "Starting extraction..." });
     if (checkCancellation()) return;
 
@@ -137,27 +174,28 @@ router.get("/analyze-website", async (req: Request, res: Response) => {
         // console.log(`🔒 DEMO MODE: Environment: ${process.env.NODE_ENV}`);
 
         // In production, ensure we get at least 5 pages for demo users
-        const demoMaxPages = process.env.NODE_ENV === "production" ? 5 : 5;
+        const demoMaxPages = Math.min(maxPages ?? 5, 5);
         console.log(`🔒 DEMO MODE: Using maxPages: ${demoMaxPages}`);
 
         websiteData = await webCrawlerService.extractWebsiteData(
           url,
           6,
           abortController.signal,
-          demoMaxPages // maxPagesOverride for demo
+          demoMaxPages, // maxPagesOverride for demo
+          undefined,
+          crawlOptions
         );
         // console.log(
         //   `🔒 DEMO MODE: Crawled ${websiteData.totalPagesCrawled} pages`
         // );
       } else {
         // Authenticated: crawl all pages, send asyncPrompt after 20
-        const authHeader = req.headers["authorization"];
-        userEmailForAsync = getEmailFromAuthHeader(authHeader);
+        userEmailForAsync = user!.email;
         websiteData = await webCrawlerService.extractWebsiteData(
           url,
           6,
           abortController.signal,
-          1000, // No artificial limit, crawl all
+          maxPages ?? 1000, // No artificial limit unless the request sets one
           (pagesCrawled) => {
             if (!asyncPromptSent && pagesCrawled === 20) {
               sendEvent("asyncPrompt", {
@@ -166,7 +204,8 @@ router.get("/analyze-website", async (req: Request, res: Response) => {
               });
               asyncPromptSent = true;
             }
-          }
+          },
+          crawlOptions
         );
       }
     } finally {
@@ -177,33 +216,23 @@ router.get("/analyze-website", async (req: Request, res: Response) => {
     sendEvent("progress", { progress: 99, message: "Website data extracted" });
 
     const pathSelections = webCrawlerService.convertToPathSelections(
-      websiteData.paths
+      websiteData.paths,
+      websiteData.sitemapEntries
     );
     sendEvent("progress", { progress: 60, message: "Paths converted" });
 
     // After crawling and before sending response
     // Save crawl result to MongoDB
-    (async () => {
+    const savedCrawl = (async () => {
       try {
-        await CrawlResultModel.create({
+        return await CrawlResultModel.create({
           url,
-          user: isAuthenticated
-            ? req.headers["authorization"]
-              ? String(req.headers["authorization"])
-                  .replace("Bearer ", "")
-                  .trim()
-              : undefined
-            : undefined,
+          user: user?.email,
           sessionId,
           crawledData: websiteData,
-          email: isAuthenticated
-            ? req.headers["authorization"]
-              ? String(req.headers["authorization"])
-                  .replace("Bearer ", "")
-                  .trim()
-              : undefined
-            : undefined,
+          email: user?.email,
           jobStatus: "completed",
+          finishedAt: new Date(),
         });
       } catch (err) {
         console.error("❌ Failed to save crawl result to MongoDB:", err);
@@ -220,10 +249,10 @@ router.get("/analyze-website", async (req: Request, res: Response) => {
     ) {
       try {
         // Build rules from pathSelections (Allow all by default)
-        const rules = pathSelections.map((p: any) => ({
+        const rules = pathSelections.map((p) => ({
           id: p.path,
           userAgent: "*",
-          type: "Allow",
+          type: "Allow" as const,
           path: p.path,
         }));
         // Use bots from query or websiteData if available
@@ -231,14 +260,18 @@ router.get("/analyze-website", async (req: Request, res: Response) => {
           bots && bots.length > 0
             ? bots
             : (websiteData as any).selectedBots || [];
-        const llmsTxtContent = generateLlmsTxtContent({
-          websiteData,
-          pathSelections,
-          rules,
-          selectedBots,
-          aiGeneratedContent: (websiteData as any).aiGeneratedContent || [],
-          enhancedFeatures: { aiEnrichment },
-        });
+        const llmsTxtContent = llmsTxtService.generate(
+          {
+            websiteData,
+            pathSelections,
+            rules,
+            selectedBots,
+            aiGeneratedContent: (websiteData as any).aiGeneratedContent || [],
+            enhancedFeatures: { aiEnrichment },
+            websiteUrl: url,
+          },
+          validationResult.data.llmsTxtFormat
+        );
         console.log(
           "[EMAIL DEBUG] llms.txt content to be sent as attachment:\n",
           llmsTxtContent
@@ -344,61 +377,52 @@ router.get("/analyze-website", async (req: Request, res: Response) => {
     }
 
     let aiGeneratedContent: AIGeneratedContent[] = [];
+    let aiFailures: AIEnrichmentFailure[] = [];
     let rateLimitHit = false;
+    const aiUsage = emptyUsageTotals();
 
     if (aiEnrichment) {
-      const total = gatedPathSelections.length;
-      let completed = 0;
-
-      for (const path of gatedPathSelections) {
-        if (checkCancellation()) return;
-
+      const enrichment = await websiteAnalysisService.enrichPaths(
+        websiteData,
+        gatedPathSelections,
+        {
+          signal: abortController.signal,
+          sessionId,
+          ai: { aiProvider, aiModel },
+          usage: { user: user?.email, totals: aiUsage },
+          previousContent: previousCrawl?.aiGeneratedContent,
+          onProgress: (completed, total) => {
+            const percent = 99 + Math.round((completed / total) * 0.5);
+            sendEvent("progress", {
+              progress: percent,
+              message: `AI enrichment: ${completed}/${total}`,
+            });
+          },
+        }
+      );
+      aiGeneratedContent = enrichment.aiGeneratedContent;
+      aiFailures = enrichment.failures;
+      rateLimitHit = enrichment.rateLimitHit;
+
+      // Keep the AI output with the saved crawl for the next re-crawl
+      savedCrawl.then(async (record) => {
+        if (!record) return;
         try {
-          const meta = websiteData.pageMetadatas?.find(
-            (m) => m.path === path.path
-          );
-          let content = "";
-          if (meta?.title) content += `Title: ${meta.title}\n`;
-          if (meta?.description)
-            content += `Description: ${meta.description}\n`;
-          if (meta?.keywords) content += `Keywords: ${meta.keywords}\n`;
-          if (!content) content = `Path: ${path.path}`;
-
-          const ai = await xaiService.generateAIContent(
-            path.path,
-            content,
-            abortController.signal,
-            sessionId
+          await CrawlResultModel.updateOne(
+            { _id: record._id },
+            { "crawledData.aiGeneratedContent": aiGeneratedContent }
           );
-          if (meta && ai) (meta as any).summary = ai.summary;
-          if (ai) aiGeneratedContent.push(ai);
-        } catch (error) {
-          if (
-            error instanceof Error &&
-            error.message?.startsWith("RATE_LIMIT_REACHED:")
-          ) {
-            sendEvent("error", {
-              error:
-                "AI rate limit reached. Please try again in a few minutes.",
-              details: error.message,
-            });
-            rateLimitHit = true;
-            break;
-          }
-          console.warn(`⚠️ AI enrichment failed for path ${path.path}:`, error);
-          continue;
+        } catch (err) {
+          console.error("❌ Failed to save AI content to MongoDB:", err);
         }
+      });
 
-        completed++;
-        const percent = 99 + Math.round((completed / total) * 0.5);
-        sendEvent("progress", {
-          progress: percent,
-          message: `AI enrichment: ${completed}/${total}`,
+      if (rateLimitHit) {
+        sendEvent("error", {
+          error: "AI rate limit reached. Please try again in a few minutes.",
+          details: enrichment.rateLimitError,
         });
-        // No delay needed - AI service queue handles rate limiting automatically
-      }
-
-      if (!rateLimitHit) {
+      } else {
         sendEvent("progress", {
           progress: 99.5,
           message: "AI enrichment complete",
@@ -412,18 +436,15 @@ router.get("/analyze-website", async (req: Request, res: Response) => {
         remainingPages?: number;
         demoMessage?: string;
       } = {
-        success: true,
-        metadata: {
-          title: websiteData.title,
-          description: websiteData.description,
-          url: url,
-          totalPagesCrawled: websiteData.totalPagesCrawled,
-          totalLinksFound: websiteData.totalLinksFound,
-          uniquePathsFound: websiteData.uniquePathsFound,
-        },
-        paths: gatedPathSelections,
+        ...websiteAnalysisService.buildResponse(
+          url,
+          websiteData,
+          gatedPathSelections,
+          aiEnrichment ? aiGeneratedContent : undefined,
+          aiFailures
+        ),
         pageMetadatas: gatedPageMetadatas,
-        aiGeneratedContent: aiEnrichment ? aiGeneratedContent : undefined,
+        aiUsage: aiEnrichment ? aiUsage : undefined,
       };
       if (!isAuthenticated) {
         response.demo = true;
@@ -451,12 +472,44 @@ router.get("/analyze-website", async (req: Request, res: Response) => {
       sendEvent("result", response);
       sendEvent("progress", { progress: 100, message: "Analysis complete" });
     }
+    savedCrawl.then(async (record) => {
+      if (!record?.user) return;
+      // Kept with the crawl so the next run can tell whether llms.txt changed
+      const llmsTxt = websiteAnalysisService.generateLlmsTxt(
+        url,
+        websiteData,
+        websiteAnalysisService.buildResponse(
+          url,
+          websiteData,
+          gatedPathSelections,
+          aiGeneratedContent
+        ),
+        {
+          bots: validationResult.data.bots,
+          aiEnrichment,
+          format: validationResult.data.llmsTxtFormat,
+        }
+      );
+      try {
+        await CrawlResultModel.updateOne(
+          { _id: record._id },
+          { "result.llmsTxt": llmsTxt }
+        );
+      } catch (err) {
+        console.error("❌ Failed to save llms.txt to MongoDB:", err);
+      }
+      void jobQueueService.notifyCompleted({
+        ...record.toObject(),
+        result: { llmsTxt },
+      });
+    });
     res.end();
   } catch (error) {
-    sendEvent("error", {
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+    if (checkCancellation()) return;
+    const errorMsg = error instanceof Error ? error.message : "Unknown error";
+    sendEvent("error", { error: errorMsg });
     res.end();
+    if (user) void saveFailedCrawl(url, user.email, sessionId, errorMsg);
   } finally {
     if (sessionId) {
       activeSessions.delete(sessionId);
@@ -512,166 +565,43 @@ router.get("/test-links", async (req: Request, res: Response) => {
   }
 });
 
-// Helper to extract email from JWT, with debug logging
-function getEmailFromAuthHeader(authHeader: string | undefined): string | null {
-  if (
-    !authHeader ||
-    typeof authHeader !== "string" ||
-    !authHeader.startsWith("Bearer ")
-  )
-    return null;
-  const token = authHeader.replace("Bearer ", "").trim();
+// Failed runs are stored like failed jobs, for the crawl.failed webhook
+async function saveFailedCrawl(
+  url: string,
+  user: string,
+  sessionId: string | undefined,
+  error: string
+): Promise<void> {
   try {
-    const decoded = jwt.decode(token);
-    console.log("[EMAIL] Decoded JWT payload:", decoded);
-    if (
-      decoded &&
-      typeof decoded === "object" &&
-      decoded.email &&
-      typeof decoded.email === "string"
-    ) {
-      return decoded.email;
-    } else {
-      console.warn("[EMAIL] No email field in decoded JWT payload:", decoded);
-    }
+    const record = await CrawlResultModel.create({
+      url,
+      user,
+      sessionId,
+      email: user,
+      jobStatus: "failed",
+      error,
+      finishedAt: new Date(),
+    });
+    await jobQueueService.notifyFailed(record);
   } catch (err) {
-    console.warn("[EMAIL] Failed to decode JWT for email extraction", err);
+    console.error("❌ Failed to save failed crawl to MongoDB:", err);
   }
-  return null;
 }
 
-// Helper to generate llms.txt content matching frontend Generator.tsx
-function generateLlmsTxtContent({
-  websiteData,
-  pathSelections,
-  rules = [],
-  selectedBots = [],
-  aiGeneratedContent = [],
-  enhancedFeatures = {},
-}: {
-  websiteData: any;
-  pathSelections: any[];
-  rules?: any[];
-  selectedBots?: string[];
-  aiGeneratedContent?: any[];
-  enhancedFeatures?: any;
-}) {
-  // Build quick metadata lookup
-  const metaMap = new Map();
-  if (websiteData.pageMetadatas && Array.isArray(websiteData.pageMetadatas)) {
-    websiteData.pageMetadatas.forEach((m: any) => metaMap.set(m.path, m));
-  }
-  // Build AI content lookup
-  const aiContentMap = new Map();
-  if (aiGeneratedContent && Array.isArray(aiGeneratedContent)) {
-    aiGeneratedContent.forEach((ai: any) => aiContentMap.set(ai.path, ai));
-  }
-  // --- DETAILS SECTION ---
-  let content = `# ${websiteData.title || "Website Overview"}\n`;
-  content += `# Website: ${
-    websiteData.url || websiteData.metadata?.url || ""
-  }\n`;
-  content += `# Last updated: ${new Date().toISOString().slice(0, 10)}\n`;
-  content += `# AI Enrichment: ${
-    enhancedFeatures.aiEnrichment ? "Enabled" : "Disabled"
-  }\n`;
-  content += `\n`;
-  if (websiteData.description) {
-    content += `> ${websiteData.description}\n\n`;
-  }
-  content += `## Company Information\n`;
-  content += `- **Name**: ${websiteData.title || "N/A"}\n`;
-  content += `- **Website**: ${
-    websiteData.url || websiteData.metadata?.url || ""
-  }\n`;
-  if (websiteData.totalPagesCrawled)
-    content += `- **Pages Crawled**: ${websiteData.totalPagesCrawled}\n`;
-  if (websiteData.totalLinksFound)
-    content += `- **Total Links Found**: ${websiteData.totalLinksFound}\n`;
-  if (websiteData.uniquePathsFound)
-    content += `- **Unique Paths Found**: ${websiteData.uniquePathsFound}\n`;
-  content += `- **Generated**: ${new Date().toISOString()}\n`;
-  content += `\n`;
-  content += `## Access Permissions for LLMs\n`;
-  content += `LLMs and indexing agents are encouraged to read and use this file for accurate citation and integration guidance.\n\n`;
-  // Add AI tool permissions section
-  const LLM_BOT_CONFIGS: { [key: string]: any } = {};
-  try {
-    Object.assign(LLM_BOT_CONFIGS, require("../types").LLM_BOT_CONFIGS);
-  } catch {}
-  const allBots = Object.keys(LLM_BOT_CONFIGS);
-  const allowedBots = selectedBots || [];
-  const disallowedBots = allBots.filter((b) => !allowedBots.includes(b));
-  content += `## AI Tool Permissions\n\n`;
-  content += `Allowed:\n`;
-  allowedBots.forEach((bot: string) => {
-    content += `- ${bot} (${LLM_BOT_CONFIGS[bot]?.description || ""})\n`;
-  });
-  content += `\nDisallowed:\n`;
-  disallowedBots.forEach((bot: string) => {
-    content += `- ${bot} (${LLM_BOT_CONFIGS[bot]?.description || ""})\n`;
-  });
-  content += `\n`;
-  // --- PATHS SECTION ---
-  content += `Navigation Structure\n----------------------\n`;
-  // List allowed paths
-  const allowedPaths = rules.filter((r: any) => r.type === "Allow");
-  if (allowedPaths.length > 0) {
-    content += `# Allowed Paths\n`;
-    allowedPaths.forEach((rule: any) => {
-      content += `- ${rule.path}\n`;
-      // Merge data from pathSelections, pageMetadatas (metaMap), and aiGeneratedContent (aiContentMap)
-      const pathData =
-        pathSelections.find((p: any) => p.path === rule.path) || {};
-      const meta = metaMap.get(rule.path) || {};
-      const aiContent = aiContentMap.get(rule.path) || {};
-      // Prefer richer data from meta and aiContent
-      if (meta.title) content += `    • Title: ${meta.title}\n`;
-      else if (pathData.title) content += `    • Title: ${pathData.title}\n`;
-      if (meta.description)
-        content += `    • Description: ${meta.description}\n`;
-      else if (pathData.description)
-        content += `    • Description: ${pathData.description}\n`;
-      if (meta.keywords) content += `    • Keywords: ${meta.keywords}\n`;
-      else if (pathData.keywords)
-        content += `    • Keywords: ${pathData.keywords}\n`;
-      if (aiContent.summary)
-        content += `    • AI Summary: ${aiContent.summary}\n`;
-      if (aiContent.contextSnippet)
-        content += `    • AI Context: ${aiContent.contextSnippet}\n`;
-      if (aiContent.contentType)
-        content += `    • Content Type: ${aiContent.contentType}\n`;
-      if (aiContent.priority)
-        content += `    • Priority: ${aiContent.priority}\n`;
-      if (aiContent.aiUsageDirective)
-        content += `    • AI Usage: ${aiContent.aiUsageDirective}\n`;
-      if (
-        enhancedFeatures.aiEnrichment &&
-        aiContent.keywords &&
-        aiContent.keywords.length > 0
-      ) {
-        content += `    • AI Keywords: ${aiContent.keywords.join(", ")}\n`;
-      }
-    });
-  }
-  // List disallowed paths
-  const disallowedPaths = rules.filter((r: any) => r.type === "Disallow");
-  if (disallowedPaths.length > 0) {
-    content += `# Disallowed Paths\n`;
-    disallowedPaths.forEach((rule: any) => {
-      content += `- ${rule.path}\n`;
-    });
-  }
-  content += `\n`;
-  // Sitemap section
-  if (websiteData.paths && websiteData.paths.length > 0) {
-    content += `Sitemap Structure\n-----------------\n`;
-    websiteData.paths.forEach((p: any) => {
-      content += `- ${typeof p === "string" ? p : p.path}\n`;
-    });
-    content += `\n`;
-  }
-  return content;
+// Query list params accept repeats (?p=a&p=b) or a comma-separated value
+function parseListParam(value: unknown): string[] | undefined {
+  const items = (Array.isArray(value) ? value : [value])
+    .filter((v): v is string => typeof v === "string")
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim())
+    .filter(Boolean);
+  return items.length ? items : undefined;
+}
+
+// Non-numeric values are passed through so validation rejects them
+function parseNumberParam(value: unknown): number | undefined {
+  if (typeof value !== "string" || value === "") return undefined;
+  return Number(value);
 }
 
 export default router;
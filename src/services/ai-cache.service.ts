@@ -0,0 +1,135 @@
+import crypto from "crypto";
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import { AICacheEntryModel } from "../models";
+import {
+  AICachePurge,
+  AICacheStats,
+  AIEnrichmentOutput,
+  LLMProviderName,
+} from "../types";
+
+dotenv.config();
+
+const CACHE_ENABLED = process.env.AI_CACHE_ENABLED !== "false";
+const TTL_HOURS = parseInt(process.env.AI_CACHE_TTL_HOURS || "720"); // 30 days
+
+// What an enrichment result depends on
+export interface AICacheKey {
+  provider: LLMProviderName;
+  model: string;
+  promptVersion: string;
+  // The page data exactly as it goes into the prompt
+  content: string;
+}
+
+/**
+ * Persistent cache of AI enrichment output, so unchanged pages aren't sent
+ * to the LLM again across crawls and generators. Entries are keyed on the
+ * provider, model, prompt version and a SHA-256 of the page content, and
+ * expire after AI_CACHE_TTL_HOURS.
+ *
+ * Lookups are skipped while MongoDB is not connected, and cache errors are
+ * logged rather than thrown, so enrichment works without the cache.
+ */
+export class AICacheService {
+  private hits = 0;
+  private misses = 0;
+
+  async get(
+    key: AICacheKey
+  ): Promise<{ output: AIEnrichmentOutput; generatedAt: string } | null> {
+    if (!this.available) return null;
+    try {
+      const entry = await AICacheEntryModel.findOneAndUpdate(
+        { key: cacheKey(key), expiresAt: { $gt: new Date() } },
+        { $inc: { hits: 1 }, $set: { lastHitAt: new Date() } },
+        { new: true }
+      );
+      if (!entry) {
+        this.misses++;
+        return null;
+      }
+      this.hits++;
+      return {
+        output: entry.output,
+        generatedAt: entry.createdAt.toISOString(),
+      };
+    } catch (error) {
+      console.warn("⚠️ AI cache lookup failed:", error);
+      return null;
+    }
+  }
+
+  async set(key: AICacheKey, output: AIEnrichmentOutput): Promise<void> {
+    if (!this.available) return;
+    try {
+      const now = new Date();
+      await AICacheEntryModel.updateOne(
+        { key: cacheKey(key) },
+        {
+          $set: {
+            provider: key.provider,
+            model: key.model,
+            promptVersion: key.promptVersion,
+            contentHash: hashContent(key.content),
+            output,
+            hits: 0,
+            createdAt: now,
+            expiresAt: new Date(now.getTime() + TTL_HOURS * 3600000),
+          },
+          $unset: { lastHitAt: 1 },
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      console.warn("⚠️ AI cache write failed:", error);
+    }
+  }
+
+  async stats(): Promise<AICacheStats> {
+    const lookups = this.hits + this.misses;
+    return {
+      enabled: CACHE_ENABLED,
+      ttlHours: TTL_HOURS,
+      entries: await AICacheEntryModel.countDocuments({
+        expiresAt: { $gt: new Date() },
+      }),
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups ? Math.round((this.hits / lookups) * 1000) / 1000 : 0,
+    };
+  }
+
+  /**
+   * Delete matching entries and return how many were removed
+   */
+  async purge(filter: AICachePurge = {}): Promise<number> {
+    const query: Record<string, string> = {};
+    if (filter.provider) query.provider = filter.provider;
+    if (filter.model) query.model = filter.model;
+    if (filter.promptVersion) query.promptVersion = filter.promptVersion;
+    const deleted = await AICacheEntryModel.deleteMany(query);
+    console.log(`🧹 Purged ${deleted.deletedCount} AI cache entries`);
+    return deleted.deletedCount;
+  }
+
+  private get available(): boolean {
+    return CACHE_ENABLED && mongoose.connection.readyState === 1;
+  }
+}
+
+function hashContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+function cacheKey(key: AICacheKey): string {
+  return [
+    key.provider,
+    key.model,
+    key.promptVersion,
+    hashContent(key.content),
+  ].join(":");
+}
+
+export const aiCacheService = new AICacheService();
@@ -0,0 +1,29 @@
+import { AIUsageService } from "./ai-usage.service";
+
+describe("AIUsageService.estimateCost", () => {
+  const service = new AIUsageService();
+
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("prices a known model per million tokens", () => {
+    expect(service.estimateCost("grok-3-mini", 1_000_000, 2_000_000)).toBe(
+      0.3 + 2 * 0.5
+    );
+  });
+
+  it("charges an unpriced model at the highest known prices", () => {
+    // grok-3 has the highest prompt and completion prices in the table
+    expect(service.estimateCost("made-up-model", 1_000_000, 1_000_000)).toBe(
+      service.estimateCost("grok-3", 1_000_000, 1_000_000)
+    );
+    expect(service.estimateCost("made-up-model", 1000, 1000)).toBeGreaterThan(
+      0
+    );
+  });
+});
@@ -0,0 +1,330 @@
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import { AIUsageRecordModel, UserModel } from "../models";
+import {
+  AIUsageCaps,
+  AIUsageResponse,
+  AIUsageTotals,
+  LLMProviderName,
+} from "../types";
+
+dotenv.config();
+
+interface ModelPrice {
+  prompt: number; // USD per million prompt tokens
+  completion: number; // USD per million completion tokens
+}
+
+// AI_PRICES, a JSON object of the same shape, adds models or overrides these
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "grok-3-mini": { prompt: 0.3, completion: 0.5 },
+  "grok-3": { prompt: 3, completion: 15 },
+  "gemini-1.5-flash": { prompt: 0.075, completion: 0.3 },
+  "gemini-1.5-pro": { prompt: 1.25, completion: 5 },
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+  "mock-1": { prompt: 0, completion: 0 },
+};
+
+// Usage of one provider and model, as grouped by the summary
+interface UsageGroup extends AIUsageTotals {
+  _id: { provider: LLMProviderName; model: string };
+}
+
+// Apply to users without their own caps; unset means unlimited
+const DEFAULT_CAPS = {
+  monthlyTokens: parseInt(process.env.AI_MONTHLY_TOKEN_CAP || "") || undefined,
+  monthlyCost: parseFloat(process.env.AI_MONTHLY_COST_CAP || "") || undefined,
+};
+
+// Month-to-date totals used for cap checks are reloaded after this long
+const MONTHLY_CACHE_MS = 60000;
+
+/**
+ * Who LLM calls are made for. Each call's usage is recorded against `user`
+ * and `jobId` and added to `totals`, so callers can report what a run cost.
+ */
+export interface AIUsageContext {
+  user?: string;
+  jobId?: string;
+  totals?: AIUsageTotals;
+}
+
+export function emptyUsageTotals(): AIUsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, estimatedCost: 0 };
+}
+
+/**
+ * Token and cost accounting for LLM calls. Every call is stored as a usage
+ * record; per-user monthly caps are checked before each call so enrichment
+ * can stop cleanly once a user is over.
+ *
+ * Records are only written, and caps only enforced, while MongoDB is
+ * connected.
+ */
+export class AIUsageService {
+  private prices = loadPrices();
+  private unpriced = new Set<string>();
+  private monthly = new Map<
+    string,
+    {
+      month: string;
+      totals: AIUsageTotals;
+      caps: AIUsageResponse["caps"];
+      loadedAt: number;
+    }
+  >();
+
+  /**
+   * Models without a price are charged at the highest known price, so
+   * picking one can't get around the cost cap
+   */
+  estimateCost(
+    model: string,
+    promptTokens: number,
+    completionTokens: number
+  ): number {
+    let price = this.prices[model];
+    if (!price) {
+      price = highestPrice(this.prices);
+      if (!this.unpriced.has(model)) {
+        console.warn(
+          `⚠️ No AI price for model "${model}", charging $${price.prompt}/$${price.completion} per million tokens`
+        );
+        this.unpriced.add(model);
+      }
+    }
+    return (
+      (promptTokens * price.prompt + completionTokens * price.completion) /
+      1_000_000
+    );
+  }
+
+  /**
+   * Record one call. Never throws; storage problems are logged.
+   */
+  async record(
+    context: AIUsageContext | undefined,
+    provider: LLMProviderName,
+    model: string,
+    usage: { promptTokens: number; completionTokens: number },
+    estimated = false
+  ): Promise<void> {
+    const call: AIUsageTotals = {
+      calls: 1,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      estimatedCost: this.estimateCost(
+        model,
+        usage.promptTokens,
+        usage.completionTokens
+      ),
+    };
+    if (context?.totals) addTotals(context.totals, call);
+    const cached = context?.user && this.monthly.get(context.user);
+    if (cached && cached.month === currentMonth()) {
+      addTotals(cached.totals, call);
+    }
+
+    if (mongoose.connection.readyState !== 1) return;
+    try {
+      await AIUsageRecordModel.create({
+        user: context?.user,
+        jobId: context?.jobId,
+        provider,
+        model,
+        promptTokens: call.promptTokens,
+        completionTokens: call.completionTokens,
+        estimatedCost: call.estimatedCost,
+        estimated,
+      });
+    } catch (error) {
+      console.warn("⚠️ Failed to record AI usage:", error);
+    }
+  }
+
+  /**
+   * Why `user` can't make more LLM calls this month, or undefined if they can
+   */
+  async capReached(user?: string): Promise<string | undefined> {
+    if (!user || mongoose.connection.readyState !== 1) return undefined;
+    let cached = this.monthly.get(user);
+    if (
+      !cached ||
+      cached.month !== currentMonth() ||
+      Date.now() - cached.loadedAt > MONTHLY_CACHE_MS
+    ) {
+      const [totals, caps] = await Promise.all([
+        this.totals(user, currentMonth()),
+        this.caps(user),
+      ]);
+      cached = { month: currentMonth(), totals, caps, loadedAt: Date.now() };
+      this.monthly.set(user, cached);
+    }
+    return capMessage(cached.caps, cached.totals);
+  }
+
+  /**
+   * A user's usage in `month` (YYYY-MM, default current), per model
+   */
+  async summary(
+    user: string,
+    month = currentMonth()
+  ): Promise<AIUsageResponse> {
+    const { start, end } = monthRange(month);
+    const [groups, caps] = await Promise.all([
+      AIUsageRecordModel.aggregate<UsageGroup>([
+        { $match: { user, createdAt: { $gte: start, $lt: end } } },
+        {
+          $group: {
+            _id: { provider: "$provider", model: "$model" },
+            calls: { $sum: 1 },
+            promptTokens: { $sum: "$promptTokens" },
+            completionTokens: { $sum: "$completionTokens" },
+            estimatedCost: { $sum: "$estimatedCost" },
+          },
+        },
+        { $sort: { estimatedCost: -1 } },
+      ]),
+      this.caps(user),
+    ]);
+
+    const totals = emptyUsageTotals();
+    const byModel = groups.map((group) => {
+      const modelTotals: AIUsageTotals = {
+        calls: group.calls,
+        promptTokens: group.promptTokens,
+        completionTokens: group.completionTokens,
+        estimatedCost: group.estimatedCost,
+      };
+      addTotals(totals, modelTotals);
+      return {
+        provider: group._id.provider,
+        model: group._id.model,
+        ...roundCost(modelTotals),
+      };
+    });
+    return {
+      month,
+      totals: roundCost(totals),
+      byModel,
+      caps,
+      capReached:
+        month === currentMonth() && capMessage(caps, totals) !== undefined,
+    };
+  }
+
+  /**
+   * Set a user's own caps; null removes one so the default applies again.
+   * Returns null when there is no such user.
+   */
+  async setCaps(
+    email: string,
+    caps: AIUsageCaps
+  ): Promise<AIUsageResponse["caps"] | null> {
+    const $set: Record<string, number> = {};
+    const $unset: Record<string, 1> = {};
+    for (const field of ["monthlyTokens", "monthlyCost"] as const) {
+      const value = caps[field];
+      if (value === null) $unset[`aiUsageCaps.${field}`] = 1;
+      else if (value !== undefined) $set[`aiUsageCaps.${field}`] = value;
+    }
+    const user = await UserModel.findOneAndUpdate(
+      { email },
+      { $set, $unset },
+      { new: true }
+    );
+    if (!user) return null;
+    this.monthly.delete(email);
+    return this.caps(email);
+  }
+
+  private async totals(user: string, month: string): Promise<AIUsageTotals> {
+    const { start, end } = monthRange(month);
+    const [group] = await AIUsageRecordModel.aggregate<
+      AIUsageTotals & { _id: null }
+    >([
+      { $match: { user, createdAt: { $gte: start, $lt: end } } },
+      {
+        $group: {
+          _id: null,
+          calls: { $sum: 1 },
+          promptTokens: { $sum: "$promptTokens" },
+          completionTokens: { $sum: "$completionTokens" },
+          estimatedCost: { $sum: "$estimatedCost" },
+        },
+      },
+    ]);
+    if (!group) return emptyUsageTotals();
+    const { _id, ...totals } = group;
+    return totals;
+  }
+
+  private async caps(user: string): Promise<AIUsageResponse["caps"]> {
+    const doc = await UserModel.findOne({ email: user }).select("aiUsageCaps");
+    return {
+      monthlyTokens:
+        doc?.aiUsageCaps?.monthlyTokens ?? DEFAULT_CAPS.monthlyTokens,
+      monthlyCost: doc?.aiUsageCaps?.monthlyCost ?? DEFAULT_CAPS.monthlyCost,
+    };
+  }
+}
+
+function loadPrices(): Record<string, ModelPrice> {
+  if (!process.env.AI_PRICES) return DEFAULT_PRICES;
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(process.env.AI_PRICES) };
+  } catch (error) {
+    console.warn("⚠️ Invalid AI_PRICES, using the default prices:", error);
+    return DEFAULT_PRICES;
+  }
+}
+
+function highestPrice(prices: Record<string, ModelPrice>): ModelPrice {
+  const all = Object.values(prices);
+  return {
+    prompt: Math.max(...all.map((price) => price.prompt)),
+    completion: Math.max(...all.map((price) => price.completion)),
+  };
+}
+
+function addTotals(into: AIUsageTotals, add: AIUsageTotals): void {
+  into.calls += add.calls;
+  into.promptTokens += add.promptTokens;
+  into.completionTokens += add.completionTokens;
+  into.estimatedCost += add.estimatedCost;
+}
+
+function roundCost(totals: AIUsageTotals): AIUsageTotals {
+  return {
+    ...totals,
+    estimatedCost: Math.round(totals.estimatedCost * 1_000_000) / 1_000_000,
+  };
+}
+
+function capMessage(
+  caps: AIUsageResponse["caps"],
+  totals: AIUsageTotals
+): string | undefined {
+  const tokens = totals.promptTokens + totals.completionTokens;
+  if (caps.monthlyTokens && tokens >= caps.monthlyTokens) {
+    return `Monthly AI token cap of ${caps.monthlyTokens} reached`;
+  }
+  if (caps.monthlyCost && totals.estimatedCost >= caps.monthlyCost) {
+    return `Monthly AI cost cap of $${caps.monthlyCost} reached`;
+  }
+  return undefined;
+}
+
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function monthRange(month: string): { start: Date; end: Date } {
+  const start = new Date(`${month}-01T00:00:00.000Z`);
+  const end = new Date(start);
+  end.setUTCMonth(end.getUTCMonth() + 1);
+  return { start, end };
+}
+
+export const aiUsageService = new AIUsageService();
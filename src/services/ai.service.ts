@@ -1,8 +1,35 @@
 import dotenv from "dotenv";
-import { AIGeneratedContent } from "../types";
+import {
+  AIBatchEnrichmentItemSchema,
+  AIBatchEnrichmentOutputSchema,
+  AIEnrichmentFailureReason,
+  AIEnrichmentOutput,
+  AIEnrichmentOutputSchema,
+  AIEnrichmentStop,
+  AIGeneratedContent,
+  AISelection,
+} from "../types";
+import { AICacheKey, aiCacheService } from "./ai-cache.service";
+import { AIUsageContext, aiUsageService } from "./ai-usage.service";
+import { ChatMessage, llmProviderService } from "./llm-provider.service";
 
 dotenv.config();
 
+// Bump when a prompt changes so cached answers to the old one aren't reused
+const PROMPT_VERSION = "page-v1";
+const BATCH_PROMPT_VERSION = "batch-v1";
+
+// Batched enrichment packs pages into one prompt up to this estimated size
+const BATCH_TOKEN_BUDGET = parseInt(
+  process.env.AI_BATCH_TOKEN_BUDGET || "6000"
+);
+// 1 turns batching off
+const BATCH_MAX_PAGES = parseInt(process.env.AI_BATCH_MAX_PAGES || "10");
+const BATCH_EXCERPT_CHARS = 1200;
+const BATCH_OUTPUT_TOKENS_PER_PAGE = 300;
+// Instructions and JSON shape around the pages
+const BATCH_PROMPT_TOKENS = 450;
+
 // Rate limiting queue for X.AI API (6 requests per second)
 class XAIRateLimiter {
   private queue: Array<() => Promise<any>> = [];
@@ -92,29 +119,19 @@ const globalRateLimiter = new XAIRateLimiter();
 // Per-session rate limiters to handle cancellation properly
 const sessionRateLimiters = new Map<string, XAIRateLimiter>();
 
-// Debug: Log the loaded API key (masking most of it for security)
-// console.log(
-//   "🔑 Loaded XAI_API_KEY:",
-//   process.env.XAI_API_KEY
-//     ? process.env.XAI_API_KEY.slice(0, 8) + "..."
-//     : undefined
-// );
-
-const XAI_API_KEY = process.env.XAI_API_KEY || "";
-const XAI_MODEL = process.env.XAI_MODEL || "grok-3-mini";
-const XAI_API_URL = process.env.XAI_API_URL || "https://api.x.ai/v1";
-
-if (!XAI_API_KEY) {
-  console.warn("⚠️ XAI_API_KEY not found in environment variables");
-}
-
-async function callXAI(
-  messages: any[],
+async function callLLM(
+  selection: AISelection,
+  messages: ChatMessage[],
   temperature = 0.7,
   maxTokens = 1024,
   signal?: AbortSignal,
-  sessionId?: string
+  sessionId?: string,
+  usage?: AIUsageContext
 ): Promise<string> {
+  const { provider, model } = llmProviderService.resolve(selection);
+  const capReached = await aiUsageService.capReached(usage?.user);
+  if (capReached) throw new Error("USAGE_CAP_REACHED: " + capReached);
+
   // Get or create session-specific rate limiter
   let sessionLimiter = sessionRateLimiters.get(sessionId || "default");
   if (!sessionLimiter) {
@@ -125,187 +142,425 @@ async function callXAI(
   }
 
   return sessionLimiter.executeRequest(async () => {
-    // Debug: Log the Authorization header before making the request
-    // console.log(
-    //   "📡 Sending auth header:",
-    //   `Bearer ${XAI_API_KEY ? XAI_API_KEY.slice(0, 8) + "..." : ""}`
-    // );
-    const response = await fetch(`${XAI_API_URL}/chat/completions`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${XAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: XAI_MODEL,
-        messages,
-        temperature,
-        max_tokens: maxTokens,
-        stream: false,
-      }),
+    const completion = await provider.complete({
+      model,
+      messages,
+      temperature,
+      maxTokens,
       signal,
     });
+    // Estimate from the text when the provider doesn't report usage
+    await aiUsageService.record(
+      usage,
+      provider.name,
+      model,
+      completion.usage ?? {
+        promptTokens: Math.ceil(
+          messages.reduce((chars, m) => chars + m.content.length, 0) / 4
+        ),
+        completionTokens: Math.ceil(completion.text.length / 4),
+      },
+      !completion.usage
+    );
+    return completion.text;
+  });
+}
 
-    if (response.status === 429) {
-      // Rate limit hit
-      const errorText = await response.text();
-      console.error("[X.AI] Rate limit hit (429):", errorText);
-      throw new Error("RATE_LIMIT_REACHED: " + errorText);
-    }
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[X.AI] API error: ${response.status} -`, errorText);
-      throw new Error(`X.AI API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = (await response.json()) as {
-      choices?: { message?: { content?: string } }[];
-    };
+/**
+ * AI enrichment that produced nothing usable. `reason` tells callers whether
+ * to stop (rate_limited, usage_cap, cancelled) or skip the page.
+ */
+export class AIEnrichmentError extends Error {
+  constructor(
+    readonly reason: AIEnrichmentFailureReason,
+    message: string,
+    readonly path: string
+  ) {
+    super(message);
+    this.name = "AIEnrichmentError";
+  }
 
-    // console.log(`[X.AI] API call successful. Rate limiting handled by queue.`);
+  /**
+   * Set when the rest of the run has to go without AI
+   */
+  get stop(): AIEnrichmentStop | undefined {
+    return this.reason === "usage_cap" || this.reason === "rate_limited"
+      ? { reason: this.reason, message: this.message }
+      : undefined;
+  }
+}
 
-    return data.choices?.[0]?.message?.content?.trim() || "";
-  });
+// A page to enrich: its metadata lines and, for batches, a body excerpt
+export interface EnrichmentPage {
+  path: string;
+  content: string;
+  bodyContent?: string;
 }
 
 export class XAIService {
   /**
-   * Generate comprehensive AI content for a path - combines all 6 previous functions into one
+   * Generate comprehensive AI content for a path - combines all 6 previous functions into one.
+   * `selection` picks the LLM provider and model instead of the configured ones,
+   * and the calls' tokens are counted against `usage`.
+   * The answer must be JSON matching AIEnrichmentOutputSchema; an invalid one
+   * gets one repair attempt before an AIEnrichmentError is thrown. Valid
+   * answers are cached by content, so unchanged pages skip the LLM.
    */
   async generateAIContent(
     path: string,
     content: string,
     signal?: AbortSignal,
-    sessionId?: string
+    sessionId?: string,
+    selection: AISelection = {},
+    usage?: AIUsageContext
   ): Promise<AIGeneratedContent> {
+    const { provider, model } = llmProviderService.resolve(selection);
+    const cacheKey: AICacheKey = {
+      provider: provider.name,
+      model,
+      promptVersion: PROMPT_VERSION,
+      content: `${path}\n${content.substring(0, 3000)}`,
+    };
+    const cached = await aiCacheService.get(cacheKey);
+    if (cached) {
+      return {
+        path,
+        ...cached.output,
+        generatedAt: cached.generatedAt,
+        model,
+        provider: provider.name,
+      };
+    }
+
     const prompt = `Analyze this webpage content and provide the following information:
 
 Path: ${path}
 Content: ${content.substring(0, 3000)}...
 
-Please provide your response in this exact format:
+Respond with a single JSON object with exactly these fields:
 
-SUMMARY: [1-2 sentence summary of the main purpose and key information]
-CONTEXT: [2-3 sentences describing what this page is about and its key value proposition]
-KEYWORDS: [keyword1, keyword2, keyword3, keyword4, keyword5]
-CONTENT_TYPE: [page|blog|docs|project|archive|terms]
-PRIORITY: [high|medium|low]
-AI_USAGE: [allow|citation-only|no-fine-tuning|disallow]
+{
+  "summary": "1-2 sentence summary of the main purpose and key information",
+  "contextSnippet": "2-3 sentences describing what this page is about and its key value proposition",
+  "keywords": ["keyword1", "keyword2", "keyword3", "keyword4", "keyword5"],
+  "contentType": "page" | "blog" | "docs" | "project" | "archive" | "terms",
+  "priority": "high" | "medium" | "low",
+  "aiUsageDirective": "allow" | "citation-only" | "no-fine-tuning" | "disallow"
+}
 
 Guidelines:
-- CONTENT_TYPE: page (regular pages), blog (blog posts), docs (documentation), project (project pages), archive (archived content), terms (legal/terms pages)
-- PRIORITY: high (main pages, important content), medium (regular content), low (archive, terms, less important)
-- AI_USAGE: allow (standard content), citation-only (citation only), no-fine-tuning (use but don't train), disallow (should not be used by AI)
-- KEYWORDS: 5-10 relevant keywords separated by commas
-- SUMMARY: concise 1-2 sentence summary
-- CONTEXT: brief context about page purpose and value
+- contentType: page (regular pages), blog (blog posts), docs (documentation), project (project pages), archive (archived content), terms (legal/terms pages)
+- priority: high (main pages, important content), medium (regular content), low (archive, terms, less important)
+- aiUsageDirective: allow (standard content), citation-only (citation only), no-fine-tuning (use but don't train), disallow (should not be used by AI)
+- keywords: 5-10 relevant keywords
+- summary: concise 1-2 sentence summary
+- contextSnippet: brief context about page purpose and value
+
+Return only the JSON object, without markdown fences or any other text.`;
+
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content:
+          "You are a helpful assistant for website content analysis. Always answer with valid JSON in the exact shape requested.",
+      },
+      { role: "user", content: prompt },
+    ];
+    const ask = async (conversation: ChatMessage[]) => {
+      try {
+        return await callLLM(
+          selection,
+          conversation,
+          0.7,
+          1024,
+          signal,
+          sessionId,
+          usage
+        );
+      } catch (error) {
+        throw toEnrichmentError(error, path, signal);
+      }
+    };
+
+    const answer = await ask(messages);
+    let output = parseEnrichmentOutput(answer);
+    if (!output.success) {
+      console.warn(
+        `⚠️ Invalid AI output for ${path} (${output.reason}), asking for a fix`
+      );
+      const repaired = await ask([
+        ...messages,
+        { role: "assistant", content: answer },
+        {
+          role: "user",
+          content: `That response was not valid: ${output.error}\nReply with only the corrected JSON object.`,
+        },
+      ]);
+      output = parseEnrichmentOutput(repaired);
+      if (!output.success) {
+        throw new AIEnrichmentError(
+          output.reason,
+          `AI returned invalid output for ${path}: ${output.error}`,
+          path
+        );
+      }
+    }
+
+    await aiCacheService.set(cacheKey, output.data);
+    return {
+      path,
+      ...output.data,
+      generatedAt: new Date().toISOString(),
+      model,
+      provider: provider.name,
+    };
+  }
+
+  /**
+   * Enrich several pages with one call. Returns the pages whose part of the
+   * answer was valid, keyed by path; callers fall back to generateAIContent
+   * for the rest. Cached pages are left out of the prompt. Throws an
+   * AIEnrichmentError when the call itself fails.
+   */
+  async generateAIContentBatch(
+    pages: EnrichmentPage[],
+    signal?: AbortSignal,
+    sessionId?: string,
+    selection: AISelection = {},
+    usage?: AIUsageContext
+  ): Promise<Map<string, AIGeneratedContent>> {
+    const { provider, model } = llmProviderService.resolve(selection);
+    const results = new Map<string, AIGeneratedContent>();
+    const cacheKeys = new Map<string, AICacheKey>();
+    for (const page of pages) {
+      const cacheKey: AICacheKey = {
+        provider: provider.name,
+        model,
+        promptVersion: BATCH_PROMPT_VERSION,
+        content: formatBatchPage(page, 0),
+      };
+      const cached = await aiCacheService.get(cacheKey);
+      if (cached) {
+        results.set(page.path, {
+          path: page.path,
+          ...cached.output,
+          generatedAt: cached.generatedAt,
+          model,
+          provider: provider.name,
+        });
+      } else {
+        cacheKeys.set(page.path, cacheKey);
+      }
+    }
+    const uncached = pages.filter((page) => cacheKeys.has(page.path));
+    if (!uncached.length) return results;
+
+    const prompt = `Analyze each of these ${uncached.length} webpages and provide the following information for every page:
+
+${uncached.map(formatBatchPage).join("\n\n")}
 
-Return only the formatted response with the exact labels shown above.`;
+Respond with a single JSON object of this shape, with one entry per page in the same order:
 
+{
+  "pages": [
+    {
+      "path": "the page's Path, exactly as given",
+      "summary": "1-2 sentence summary of the main purpose and key information",
+      "contextSnippet": "2-3 sentences describing what this page is about and its key value proposition",
+      "keywords": ["keyword1", "keyword2", "keyword3", "keyword4", "keyword5"],
+      "contentType": "page" | "blog" | "docs" | "project" | "archive" | "terms",
+      "priority": "high" | "medium" | "low",
+      "aiUsageDirective": "allow" | "citation-only" | "no-fine-tuning" | "disallow"
+    }
+  ]
+}
+
+Guidelines:
+- contentType: page (regular pages), blog (blog posts), docs (documentation), project (project pages), archive (archived content), terms (legal/terms pages)
+- priority: high (main pages, important content), medium (regular content), low (archive, terms, less important)
+- aiUsageDirective: allow (standard content), citation-only (citation only), no-fine-tuning (use but don't train), disallow (should not be used by AI)
+- keywords: 5-10 relevant keywords
+- Judge each page on its own data only
+
+Return only the JSON object, without markdown fences or any other text.`;
+
+    let answer: string;
     try {
-      const result = await callXAI(
+      answer = await callLLM(
+        selection,
         [
           {
             role: "system",
             content:
-              "You are a helpful assistant for website content analysis. Always provide responses in the exact format requested.",
+              "You are a helpful assistant for website content analysis. Always answer with valid JSON in the exact shape requested.",
           },
           { role: "user", content: prompt },
         ],
         0.7,
-        1024,
+        Math.min(8192, BATCH_OUTPUT_TOKENS_PER_PAGE * uncached.length + 200),
         signal,
-        sessionId
+        sessionId,
+        usage
       );
+    } catch (error) {
+      throw toEnrichmentError(
+        error,
+        uncached.map((page) => page.path).join(", "),
+        signal
+      );
+    }
 
-      // Parse the text response
-      const lines = result.split("\n").filter((line) => line.trim());
-      const parsed: any = {};
-
-      // console.log("🔍 AI raw response:", result);
-      // console.log("🔍 AI parsed lines:", lines);
-
-      for (const line of lines) {
-        if (line.startsWith("SUMMARY:")) {
-          parsed.summary = line.replace("SUMMARY:", "").trim();
-        } else if (line.startsWith("CONTEXT:")) {
-          parsed.contextSnippet = line.replace("CONTEXT:", "").trim();
-        } else if (line.startsWith("KEYWORDS:")) {
-          const keywordsStr = line.replace("KEYWORDS:", "").trim();
-          parsed.keywords = keywordsStr
-            .split(",")
-            .map((k) => k.trim())
-            .filter(Boolean);
-        } else if (line.startsWith("CONTENT_TYPE:")) {
-          parsed.contentType = line
-            .replace("CONTENT_TYPE:", "")
-            .trim()
-            .toLowerCase();
-        } else if (line.startsWith("PRIORITY:")) {
-          parsed.priority = line.replace("PRIORITY:", "").trim().toLowerCase();
-        } else if (line.startsWith("AI_USAGE:")) {
-          parsed.aiUsageDirective = line
-            .replace("AI_USAGE:", "")
-            .trim()
-            .toLowerCase();
-        }
-      }
-
-      // console.log("🔍 AI parsed result:", parsed);
-
-      // Validate and sanitize the response
-      const allowedContentTypes = [
-        "page",
-        "blog",
-        "docs",
-        "project",
-        "archive",
-        "terms",
-      ];
-      const allowedPriorities = ["high", "medium", "low"];
-      const allowedDirectives = [
-        "allow",
-        "citation-only",
-        "no-fine-tuning",
-        "disallow",
-      ];
+    const json = extractJson(answer);
+    const batch = json.success
+      ? AIBatchEnrichmentOutputSchema.safeParse(json.data)
+      : undefined;
+    if (!batch?.success) {
+      console.warn(
+        `⚠️ Invalid batched AI output for ${uncached.length} pages (${
+          json.success ? "no pages array" : json.error
+        })`
+      );
+      return results;
+    }
 
-      return {
-        path,
-        summary: parsed.summary || "Summary generation failed",
-        contextSnippet:
-          parsed.contextSnippet || "Context snippet generation failed",
-        keywords: Array.isArray(parsed.keywords)
-          ? parsed.keywords.slice(0, 10)
-          : [],
-        contentType: allowedContentTypes.includes(parsed.contentType)
-          ? parsed.contentType
-          : "page",
-        priority: allowedPriorities.includes(parsed.priority)
-          ? parsed.priority
-          : "medium",
-        aiUsageDirective: allowedDirectives.includes(parsed.aiUsageDirective)
-          ? parsed.aiUsageDirective
-          : "allow",
-        generatedAt: new Date().toISOString(),
-        model: XAI_MODEL,
-      };
-    } catch (error) {
-      console.error("Error generating AI content:", error);
-      return {
+    const generatedAt = new Date().toISOString();
+    for (const item of batch.data.pages) {
+      const output = AIBatchEnrichmentItemSchema.safeParse(item);
+      if (!output.success) continue;
+      const { path, ...enrichment } = output.data;
+      const cacheKey = cacheKeys.get(path);
+      if (!cacheKey || results.has(path)) continue;
+      await aiCacheService.set(cacheKey, enrichment);
+      results.set(path, {
         path,
-        summary: "AI analysis failed",
-        contextSnippet: "Context analysis failed",
-        keywords: [],
-        contentType: "page",
-        priority: "medium",
-        aiUsageDirective: "allow",
-        generatedAt: new Date().toISOString(),
-        model: XAI_MODEL,
-      };
+        ...enrichment,
+        generatedAt,
+        model,
+        provider: provider.name,
+      });
+    }
+    return results;
+  }
+}
+
+/**
+ * Split pages into batches that fit the token budget, in order. Body
+ * excerpts are cut so a single page always fits.
+ */
+export function packEnrichmentBatches(
+  pages: EnrichmentPage[]
+): EnrichmentPage[][] {
+  const budget = BATCH_TOKEN_BUDGET - BATCH_PROMPT_TOKENS;
+  const batches: EnrichmentPage[][] = [];
+  let batch: EnrichmentPage[] = [];
+  let tokens = 0;
+  for (const page of pages) {
+    const pageTokens = estimateTokens(formatBatchPage(page, 0));
+    if (
+      batch.length &&
+      (batch.length >= BATCH_MAX_PAGES || tokens + pageTokens > budget)
+    ) {
+      batches.push(batch);
+      batch = [];
+      tokens = 0;
     }
+    batch.push(page);
+    tokens += pageTokens;
+  }
+  if (batch.length) batches.push(batch);
+  return batches;
+}
+
+function formatBatchPage(page: EnrichmentPage, index: number): string {
+  const excerpt = page.bodyContent?.replace(/\s+/g, " ").trim();
+  return [
+    `### Page ${index + 1}`,
+    `Path: ${page.path}`,
+    page.content.substring(0, 1000).trim(),
+    excerpt && `Excerpt: ${excerpt.substring(0, BATCH_EXCERPT_CHARS)}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Rough count for packing; about 4 characters per token in English text
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+type ParsedOutput =
+  | { success: true; data: AIEnrichmentOutput }
+  | {
+      success: false;
+      reason: "empty_response" | "invalid_json" | "schema_mismatch";
+      error: string;
+    };
+
+type ExtractedJson =
+  | { success: true; data: unknown }
+  | {
+      success: false;
+      reason: "empty_response" | "invalid_json";
+      error: string;
+    };
+
+// Models like to wrap JSON in code fences or add a sentence around it
+function extractJson(text: string): ExtractedJson {
+  if (!text.trim()) {
+    return {
+      success: false,
+      reason: "empty_response",
+      error: "empty response",
+    };
+  }
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  try {
+    return {
+      success: true,
+      data: JSON.parse(start >= 0 ? text.slice(start, end + 1) : text),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      reason: "invalid_json",
+      error: error instanceof Error ? error.message : "not JSON",
+    };
+  }
+}
+
+function parseEnrichmentOutput(text: string): ParsedOutput {
+  const json = extractJson(text);
+  if (!json.success) return json;
+  const result = AIEnrichmentOutputSchema.safeParse(json.data);
+  if (!result.success) {
+    return {
+      success: false,
+      reason: "schema_mismatch",
+      error: result.error.issues
+        .map((issue) => `${issue.path.join(".") || "root"}: ${issue.message}`)
+        .join("; "),
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+function toEnrichmentError(
+  error: unknown,
+  path: string,
+  signal?: AbortSignal
+): AIEnrichmentError {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.startsWith("RATE_LIMIT_REACHED:")) {
+    return new AIEnrichmentError("rate_limited", message, path);
+  }
+  if (message.startsWith("USAGE_CAP_REACHED:")) {
+    return new AIEnrichmentError("usage_cap", message, path);
+  }
+  if (signal?.aborted) {
+    return new AIEnrichmentError("cancelled", "CANCELLED", path);
   }
+  return new AIEnrichmentError("provider_error", message, path);
 }
 
 export const xaiService = new XAIService();
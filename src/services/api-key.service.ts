@@ -0,0 +1,121 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { ApiKey, ApiKeyModel, UserModel } from "../models";
+import { ApiKeyRequest, ApiKeyResponse, ApiKeyScope } from "../types";
+
+const KEY_PREFIX = "llms_";
+// Characters of the key kept in plain text so users can tell keys apart
+const DISPLAY_PREFIX_LENGTH = 12;
+
+export interface ApiKeyIdentity {
+  keyId: string;
+  email: string;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * API keys for programmatic access (CI pipelines and the like). Keys are
+ * random, shown once on creation and stored as SHA-256 hashes, so a lookup
+ * by hash is all verification needs.
+ */
+export class ApiKeyService {
+  /**
+   * Create a key for a registered user. Returns null when the user doesn't
+   * exist.
+   */
+  async create(
+    email: string,
+    request: ApiKeyRequest
+  ): Promise<ApiKeyResponse | null> {
+    const user = await UserModel.findOne({ email });
+    if (!user) return null;
+
+    const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+    const apiKey = await ApiKeyModel.create({
+      userId: user._id,
+      name: request.name,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashKey(key),
+      scopes: request.scopes,
+    });
+    console.log(`🔑 Created API key ${apiKey._id} for ${email}`);
+    return { ...toResponse(apiKey), key };
+  }
+
+  async list(email: string): Promise<ApiKeyResponse[]> {
+    const user = await UserModel.findOne({ email });
+    if (!user) return [];
+    const keys = await ApiKeyModel.find({ userId: user._id }).sort({
+      createdAt: -1,
+    });
+    return keys.map(toResponse);
+  }
+
+  /**
+   * Revoke a key; it stops working immediately but stays listed
+   */
+  async revoke(email: string, id: string): Promise<ApiKeyResponse | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const user = await UserModel.findOne({ email });
+    if (!user) return null;
+    const revoked = await ApiKeyModel.findOneAndUpdate(
+      { _id: id, userId: user._id, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    );
+    if (revoked) {
+      console.log(`🔒 Revoked API key ${id}`);
+      return toResponse(revoked);
+    }
+    // Already revoked
+    const apiKey = await ApiKeyModel.findOne({ _id: id, userId: user._id });
+    return apiKey ? toResponse(apiKey) : null;
+  }
+
+  /**
+   * Owner and scopes of an active key, or null when the key is unknown,
+   * revoked or its user no longer exists
+   */
+  async verify(key: string): Promise<ApiKeyIdentity | null> {
+    if (!key.startsWith(KEY_PREFIX)) return null;
+    const apiKey = await ApiKeyModel.findOne({
+      keyHash: hashKey(key),
+      revokedAt: { $exists: false },
+    });
+    if (!apiKey) return null;
+    const user = await UserModel.findById(apiKey.userId);
+    if (!user) return null;
+
+    ApiKeyModel.updateOne(
+      { _id: apiKey._id },
+      { $set: { lastUsedAt: new Date() } }
+    ).catch((err: unknown) =>
+      console.error("❌ Failed to record API key use:", err)
+    );
+    return {
+      keyId: String(apiKey._id),
+      email: user.email,
+      scopes: apiKey.scopes,
+    };
+  }
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+function toResponse(
+  apiKey: mongoose.HydratedDocument<ApiKey>
+): ApiKeyResponse {
+  return {
+    id: String(apiKey._id),
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    createdAt: apiKey.createdAt?.toISOString(),
+    lastUsedAt: apiKey.lastUsedAt?.toISOString(),
+    revokedAt: apiKey.revokedAt?.toISOString(),
+  };
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,192 @@
+import * as cheerio from "cheerio";
+import { HeadingOutlineItem } from "../types";
+
+export interface ExtractedContent {
+  text: string;
+  headings: HeadingOutlineItem[];
+}
+
+const MAX_TEXT_LENGTH = 30000;
+// A <main>/<article> with less text than this is a wrapper, not the content
+const MIN_LANDMARK_TEXT = 200;
+const MIN_PARAGRAPH_TEXT = 25;
+
+const NOISE_SELECTORS = [
+  "script",
+  "style",
+  "noscript",
+  "iframe",
+  "svg",
+  "template",
+  "form",
+  "button",
+  "nav",
+  "aside",
+  "dialog",
+  '[role="navigation"]',
+  '[role="banner"]',
+  '[role="contentinfo"]',
+  '[role="complementary"]',
+  '[role="dialog"]',
+  '[aria-hidden="true"]',
+  "[hidden]",
+].join(", ");
+
+// Class/id fragments that mark boilerplate blocks
+const NOISE_NAME =
+  /(^|[-_\s])(cookie|consent|gdpr|navbar|menu|breadcrumbs?|sidebar|footer|share|social|newsletter|subscribe|popup|modal|advert|ads?|promo|related|comments?|skip-link)([-_\s]|$)/i;
+
+const BLOCK_ELEMENTS =
+  "p, div, section, article, main, h1, h2, h3, h4, h5, h6, li, dt, dd, pre, blockquote, figcaption, table, tr, td, th, br, hr";
+
+/**
+ * Readability-style extraction: drop boilerplate, pick the main content
+ * block (landmarks first, then text-density scoring) and return its text
+ * one block per line, plus the headings outline.
+ */
+export class ContentExtractorService {
+  extract($: cheerio.CheerioAPI): ExtractedContent {
+    const root = this.mainContent($);
+    const headings = this.headingsOutline($, root);
+
+    root.find(BLOCK_ELEMENTS).each((_, el) => {
+      $(el).prepend("\n").append("\n");
+    });
+    const text = root
+      .text()
+      .split("\n")
+      .map((line) => line.replace(/\s+/g, " ").trim())
+      .filter(Boolean)
+      .join("\n")
+      .slice(0, MAX_TEXT_LENGTH);
+
+    return { text, headings };
+  }
+
+  /**
+   * Strip boilerplate from the document and return the main content element
+   */
+  mainContent($: cheerio.CheerioAPI): cheerio.Cheerio<any> {
+    $(NOISE_SELECTORS).remove();
+    // Page-level header/footer only; <header> inside an article is content
+    $(
+      "body > header, body > footer, body > div > header, body > div > footer"
+    ).remove();
+
+    // Class names are a weak signal ("has-sidebar" layouts wrap the content),
+    // so never drop a block that holds the page's heading or most of its text
+    const pageLength = textLength($("body"));
+    $("[class], [id]").each((_, el) => {
+      const $el = $(el);
+      const name = `${$el.attr("class") || ""} ${$el.attr("id") || ""}`;
+      if (
+        NOISE_NAME.test(name) &&
+        !$el.is("body, main, article") &&
+        !$el.find("main, article, h1").length &&
+        textLength($el) < pageLength / 2
+      )
+        $el.remove();
+    });
+
+    return this.findMainContent($);
+  }
+
+  private findMainContent($: cheerio.CheerioAPI): cheerio.Cheerio<any> {
+    const body: cheerio.Cheerio<any> = $("body").length ? $("body") : $.root();
+
+    let best: cheerio.Cheerio<any> | undefined;
+    let bestLength = 0;
+    $('main, article, [role="main"]').each((_, el) => {
+      const length = textLength($(el));
+      if (length > bestLength) {
+        best = $(el);
+        bestLength = length;
+      }
+    });
+    if (best && bestLength >= MIN_LANDMARK_TEXT) return best;
+
+    // Paragraph scores flow to their parent (full) and grandparent (half)
+    const scores = new Map<any, number>(); // DOM element -> score
+    body.find("p, pre, td, blockquote").each((_, el) => {
+      const text = $(el).text().trim();
+      if (text.length < MIN_PARAGRAPH_TEXT) return;
+      const score =
+        1 +
+        text.split(",").length +
+        Math.min(Math.floor(text.length / 100), 3);
+      const parent = $(el).parent()[0];
+      const grandparent = $(el).parent().parent()[0];
+      if (parent) scores.set(parent, (scores.get(parent) || 0) + score);
+      if (grandparent)
+        scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+    });
+
+    let bestScore = 0;
+    for (const [el, score] of scores) {
+      const adjusted = score * (1 - linkDensity($(el)));
+      if (adjusted > bestScore) {
+        best = $(el);
+        bestScore = adjusted;
+      }
+    }
+    return bestScore > 0 && best ? best : body;
+  }
+
+  private headingsOutline(
+    $: cheerio.CheerioAPI,
+    root: cheerio.Cheerio<any>
+  ): HeadingOutlineItem[] {
+    const headings: HeadingOutlineItem[] = [];
+    root.find("h1, h2, h3, h4, h5, h6").each((_, el) => {
+      const text = $(el).text().replace(/\s+/g, " ").trim();
+      if (text) headings.push({ level: Number(el.tagName[1]), text });
+    });
+    // The page title heading often sits just above the content block
+    const h1 = $("h1").first().text().replace(/\s+/g, " ").trim();
+    if (h1 && !headings.some((h) => h.level === 1))
+      headings.unshift({ level: 1, text: h1 });
+    return headings;
+  }
+}
+
+/**
+ * Remove lines that repeat on many crawled pages (menus, footers, cookie
+ * text that survived extraction). Pages that would end up empty are kept.
+ */
+export function removeRepeatedBlocks(
+  texts: string[],
+  minPages = 3,
+  minShare = 0.5
+): string[] {
+  if (texts.length < minPages) return texts;
+
+  const pageCounts = new Map<string, number>();
+  for (const text of texts) {
+    for (const line of new Set(text.split("\n"))) {
+      pageCounts.set(line, (pageCounts.get(line) || 0) + 1);
+    }
+  }
+  const threshold = Math.max(minPages, Math.ceil(texts.length * minShare));
+  const repeated = new Set(
+    Array.from(pageCounts)
+      .filter(([, count]) => count >= threshold)
+      .map(([line]) => line)
+  );
+  if (!repeated.size) return texts;
+
+  return texts.map((text) => {
+    const kept = text.split("\n").filter((line) => !repeated.has(line));
+    return kept.length ? kept.join("\n") : text;
+  });
+}
+
+function textLength($el: cheerio.Cheerio<any>): number {
+  return $el.text().replace(/\s+/g, " ").trim().length;
+}
+
+function linkDensity($el: cheerio.Cheerio<any>): number {
+  const total = textLength($el);
+  return total ? Math.min(textLength($el.find("a")) / total, 1) : 1;
+}
+
+export const contentExtractorService = new ContentExtractorService();
@@ -0,0 +1,82 @@
+import { crawlDiffService } from "./crawl-diff.service";
+import { CrawlSnapshot } from "./crawl-history.service";
+import { WebsiteData } from "./web-crawler.service";
+
+const PATHS = ["/", "/docs", "/pricing"];
+
+const websiteData: WebsiteData = {
+  title: "Example",
+  description: "An example site",
+  paths: PATHS,
+  totalPagesCrawled: PATHS.length,
+  totalLinksFound: PATHS.length,
+  uniquePathsFound: PATHS.length,
+  pageMetadatas: PATHS.map((path) => ({
+    path,
+    title: `Title of ${path}`,
+    description: `Description of ${path}`,
+  })),
+  robotsSkippedPaths: [],
+  sitemapEntries: [],
+  aliases: [],
+  crawlSummary: {
+    maxDepth: 3,
+    maxPages: 100,
+    includePatterns: [],
+    excludePatterns: [],
+    renderMode: "static",
+    renderedPages: 0,
+    notModifiedPages: 0,
+    stopReason: "completed",
+    durationMs: 1000,
+  },
+  pageSnapshots: [],
+};
+
+function snapshot(id: string, docsSummary: string): CrawlSnapshot {
+  return {
+    id,
+    url: "https://example.com",
+    crawledAt: new Date("2026-01-01T00:00:00Z"),
+    websiteData,
+    aiGeneratedContent: [
+      {
+        path: "/docs",
+        summary: docsSummary,
+        generatedAt: "2026-01-01T00:00:00Z",
+        model: "mock",
+      },
+    ],
+  };
+}
+
+describe("CrawlDiffService", () => {
+  it("reports a changed AI summary in the fields and the llms.txt diff", () => {
+    const diff = crawlDiffService.diff(
+      snapshot("a", "Guides for the old API."),
+      snapshot("b", "Guides for the new API.")
+    );
+
+    expect(diff.addedPaths).toEqual([]);
+    expect(diff.removedPaths).toEqual([]);
+    expect(diff.summaryChanges).toEqual([
+      {
+        path: "/docs",
+        from: "Guides for the old API.",
+        to: "Guides for the new API.",
+      },
+    ]);
+    expect(diff.llmsTxtDiff).toMatch(/^-.*Guides for the old API\./m);
+    expect(diff.llmsTxtDiff).toMatch(/^\+.*Guides for the new API\./m);
+  });
+
+  it("leaves the llms.txt diff empty when nothing changed", () => {
+    const diff = crawlDiffService.diff(
+      snapshot("a", "Guides."),
+      snapshot("b", "Guides.")
+    );
+
+    expect(diff.summaryChanges).toEqual([]);
+    expect(diff.llmsTxtDiff).toBe("");
+  });
+});
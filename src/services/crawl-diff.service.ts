@@ -0,0 +1,127 @@
+import { createTwoFilesPatch } from "diff";
+import {
+  AIGeneratedContent,
+  CrawlDiffResponse,
+  LlmsTxtFormat,
+  PageFieldChange,
+} from "../types";
+import { CrawlSnapshot } from "./crawl-history.service";
+import { llmsTxtService } from "./llms-txt.service";
+import { webCrawlerService } from "./web-crawler.service";
+
+type CrawlDiff = Omit<CrawlDiffResponse, "success" | "domain">;
+
+/**
+ * Compares two stored crawls of a site: which paths came and went, which
+ * page and AI fields changed, and how the generated llms.txt differs
+ */
+export class CrawlDiffService {
+  diff(
+    from: CrawlSnapshot,
+    to: CrawlSnapshot,
+    format: LlmsTxtFormat = "legacy"
+  ): CrawlDiff {
+    const fromPages = new Map(
+      from.websiteData.pageMetadatas.map((m) => [m.path, m])
+    );
+    const toPages = new Map(
+      to.websiteData.pageMetadatas.map((m) => [m.path, m])
+    );
+    const fromAi = new Map(from.aiGeneratedContent.map((ai) => [ai.path, ai]));
+    const toAi = new Map(to.aiGeneratedContent.map((ai) => [ai.path, ai]));
+
+    const kept = Array.from(toPages.keys())
+      .filter((path) => fromPages.has(path))
+      .sort();
+    const changes = (
+      get: (path: string) => [string | undefined, string | undefined]
+    ): PageFieldChange[] =>
+      kept
+        .map((path) => {
+          const [before, after] = get(path);
+          return { path, from: before, to: after };
+        })
+        .filter((change) => (change.from || "") !== (change.to || ""));
+    const aiField = (path: string, field: keyof AIGeneratedContent) =>
+      [fromAi.get(path)?.[field], toAi.get(path)?.[field]] as [
+        string | undefined,
+        string | undefined
+      ];
+
+    const fromLlmsTxt = this.llmsTxt(from, format);
+    const toLlmsTxt = this.llmsTxt(to, format);
+
+    return {
+      from: describe(from),
+      to: describe(to),
+      addedPaths: Array.from(toPages.keys())
+        .filter((path) => !fromPages.has(path))
+        .sort(),
+      removedPaths: Array.from(fromPages.keys())
+        .filter((path) => !toPages.has(path))
+        .sort(),
+      titleChanges: changes((path) => [
+        fromPages.get(path)?.title,
+        toPages.get(path)?.title,
+      ]),
+      descriptionChanges: changes((path) => [
+        fromPages.get(path)?.description,
+        toPages.get(path)?.description,
+      ]),
+      summaryChanges: changes((path) => aiField(path, "summary")),
+      priorityChanges: changes((path) => aiField(path, "priority")),
+      directiveChanges: changes((path) => aiField(path, "aiUsageDirective")),
+      llmsTxtDiff:
+        fromLlmsTxt === toLlmsTxt
+          ? ""
+          : createTwoFilesPatch(
+              "llms.txt",
+              "llms.txt",
+              fromLlmsTxt,
+              toLlmsTxt,
+              `${from.id} (${from.crawledAt.toISOString()})`,
+              `${to.id} (${to.crawledAt.toISOString()})`
+            ),
+    };
+  }
+
+  /**
+   * llms.txt as it would be generated from a stored crawl, with the same
+   * rules the analysis routes and jobs use
+   */
+  private llmsTxt(snapshot: CrawlSnapshot, format: LlmsTxtFormat): string {
+    const data = snapshot.websiteData;
+    const pathSelections = webCrawlerService.convertToPathSelections(
+      data.paths,
+      data.sitemapEntries
+    );
+    return llmsTxtService.generate(
+      {
+        websiteData: { ...data, url: snapshot.url },
+        pathSelections,
+        rules: pathSelections.map((p) => ({
+          id: p.path,
+          userAgent: "*",
+          type: p.allow ? "Allow" : "Disallow",
+          path: p.path,
+        })),
+        aiGeneratedContent: snapshot.aiGeneratedContent,
+        enhancedFeatures: {
+          aiEnrichment: snapshot.aiGeneratedContent.length > 0,
+        },
+        websiteUrl: snapshot.url,
+      },
+      format
+    );
+  }
+}
+
+function describe(snapshot: CrawlSnapshot) {
+  return {
+    id: snapshot.id,
+    url: snapshot.url,
+    crawledAt: snapshot.crawledAt.toISOString(),
+  };
+}
+
+export const crawlDiffService = new CrawlDiffService();
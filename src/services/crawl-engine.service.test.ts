@@ -0,0 +1,89 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { matchesPathPattern } from "./crawl-engine.service";
+import { webCrawlerService } from "./web-crawler.service";
+
+const PATHS = [
+  "/",
+  "/docs",
+  "/docs/start",
+  "/docs/api/auth",
+  "/docs/private/keys",
+  "/blog/launch",
+];
+
+describe("matchesPathPattern", () => {
+  it.each([
+    ["/docs/*", "/docs/start", true],
+    ["/docs/*", "/docs/api/auth", false],
+    ["/docs/*", "/docs", false],
+    ["/docs/**", "/docs", true],
+    ["/docs/**", "/docs/api/auth", true],
+    ["/docs/**", "/documentation", false],
+    ["/**/private/**", "/docs/private/keys", true],
+    ["/**/*.pdf", "/files/2026/report.pdf", true],
+    ["/**/*.pdf", "/files/report.pdfx", false],
+    ["/blog/*-draft", "/blog/launch-draft", true],
+    ["/a.b", "/aXb", false],
+    ["/pricing", "/pricing/team", false],
+  ])("%s against %s is %s", (pattern, path, expected) => {
+    expect(matchesPathPattern(pattern, path)).toBe(expected);
+  });
+});
+
+describe("crawl include and exclude patterns", () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const links = PATHS.map((p) => `<a href="${p}">${p}</a>`).join("");
+    server = http.createServer((req, res) => {
+      if (!PATHS.includes(req.url!)) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(
+        `<!doctype html><html><head><title>${req.url}</title></head><body>${links}</body></html>`
+      );
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("crawls the start page and the included paths that aren't excluded", async () => {
+    const outcome = await webCrawlerService.crawl(`${baseUrl}/`, {
+      renderMode: "static",
+      useSitemaps: false,
+      includePatterns: ["/docs/**"],
+      excludePatterns: ["/docs/private/**"],
+    });
+
+    expect(outcome.pages.map((p) => p.path).sort()).toEqual([
+      "/",
+      "/docs",
+      "/docs/api/auth",
+      "/docs/start",
+    ]);
+    expect(outcome.summary).toMatchObject({
+      includePatterns: ["/docs/**"],
+      excludePatterns: ["/docs/private/**"],
+    });
+  }, 30000);
+});
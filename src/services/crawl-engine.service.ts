@@ -0,0 +1,501 @@
+import crypto from "crypto";
+import { URL } from "url";
+import type { CrawlResult, PageMetadata } from "./web-crawler.service";
+import { robotsTxtService } from "./robots-txt.service";
+import { sitemapService, SitemapEntry } from "./sitemap.service";
+import { HostThrottle, HostThrottleOptions } from "./host-throttle.service";
+import {
+  UrlCanonicalizer,
+  hashContent,
+  stripWww,
+} from "./url-canonicalizer.service";
+import { pageRendererService, RenderMode } from "./page-renderer.service";
+import { removeRepeatedBlocks } from "./content-extractor.service";
+import {
+  CrawlChanges,
+  CrawlSummary,
+  PageSnapshot,
+  PathAlias,
+} from "../types";
+
+export interface CrawlOptions extends Partial<HostThrottleOptions> {
+  maxDepth?: number;
+  maxPages?: number;
+  includePatterns?: string[]; // Path globs, e.g. "/docs/**"; the start page is always crawled
+  excludePatterns?: string[];
+  timeBudgetMs?: number; // Stop starting new pages after this long
+  renderMode?: RenderMode; // Defaults to CRAWL_RENDER_MODE
+  concurrency?: number; // Pages fetched in parallel
+  useSitemaps?: boolean;
+  stripQueryParams?: string[]; // Added to the default tracking/session parameters
+  dedupeContent?: boolean; // Collapse pages with identical text
+  previousPages?: PreviousPage[]; // From an earlier crawl; enables 304s and `changes`
+  markdown?: boolean; // Also keep each page's main content as metadata.markdown
+  signal?: AbortSignal;
+  onProgress?: (pagesCrawled: number) => void;
+}
+
+// What an earlier crawl saw at a URL. Fetchers send its validators as a
+// conditional request and return its metadata on 304 Not Modified.
+export interface PreviousPage extends PageSnapshot {
+  metadata: PageMetadata;
+}
+
+export type PageFetcher = (
+  url: string,
+  baseDomain: string,
+  signal?: AbortSignal,
+  throttle?: HostThrottle,
+  renderMode?: RenderMode,
+  previous?: PreviousPage,
+  markdown?: boolean
+) => Promise<CrawlResult>;
+
+// Turns a crawled page into a consumer-specific record. Runs once the crawl
+// has finished, so page text is already free of cross-page boilerplate.
+export type PageProcessor<T> = (
+  page: CrawlResult,
+  depth: number
+) => T | Promise<T>;
+
+export interface CrawlOutcome<T> {
+  baseUrl: string;
+  baseDomain: string;
+  startPage?: CrawlResult; // The page at `baseUrl`, when it loaded
+  pages: CrawlResult[]; // Successful, deduplicated pages in crawl order
+  processed: T[]; // Processor output for `pages`, same order
+  failedPages: CrawlResult[];
+  totalPagesCrawled: number; // Fetch attempts, successful or not
+  robotsSkippedPaths: string[];
+  sitemapEntries: Array<Omit<SitemapEntry, "url"> & { path: string }>;
+  aliases: PathAlias[]; // URLs folded into a crawled page
+  summary: CrawlSummary;
+  changes?: CrawlChanges; // When previousPages was given
+}
+
+interface CrawlSlot<T> {
+  page: CrawlResult;
+  depth: number;
+  duplicate: boolean; // Same canonical URL or content as an earlier page
+  output?: T;
+}
+
+const DEFAULT_MAX_DEPTH = 6;
+const DEFAULT_MAX_PAGES = 1000;
+
+/**
+ * The single BFS crawl loop behind llms.txt analysis, llms-full.txt and the
+ * markdown export: robots.txt and sitemap aware, concurrent with per-host
+ * throttling, and deduplicated on canonical URLs and page content so every
+ * consumer sees the same pages.
+ */
+export class CrawlEngine {
+  private concurrency = parseInt(process.env.CRAWL_CONCURRENCY || "5");
+
+  constructor(private userAgent: string, private fetchPage: PageFetcher) {}
+
+  // Without `processPage`, `processed` holds the crawl results themselves
+  async crawl(
+    url: string,
+    options?: CrawlOptions
+  ): Promise<CrawlOutcome<CrawlResult>>;
+  async crawl<T>(
+    url: string,
+    options: CrawlOptions,
+    processPage: PageProcessor<T>
+  ): Promise<CrawlOutcome<T>>;
+  async crawl<T>(
+    url: string,
+    options: CrawlOptions = {},
+    processPage?: PageProcessor<T>
+  ): Promise<CrawlOutcome<T | CrawlResult>> {
+    const {
+      maxDepth = DEFAULT_MAX_DEPTH,
+      maxPages = DEFAULT_MAX_PAGES,
+      includePatterns = [],
+      excludePatterns = [],
+      timeBudgetMs,
+      renderMode = pageRendererService.defaultMode,
+      concurrency = this.concurrency,
+      useSitemaps = true,
+      stripQueryParams = [],
+      dedupeContent = true,
+      previousPages,
+      markdown,
+      signal,
+      onProgress,
+      ...throttleOptions
+    } = options;
+
+    const startedAt = Date.now();
+    const deadline = timeBudgetMs ? startedAt + timeBudgetMs : Infinity;
+    const baseUrl = normalizeStartUrl(url);
+    const baseDomain = new URL(baseUrl).hostname;
+
+    const robots = await robotsTxtService.getPolicy(
+      baseUrl,
+      this.userAgent,
+      signal
+    );
+    const throttle = new HostThrottle(throttleOptions);
+    throttle.setMinDelay(baseDomain, robots.crawlDelayMs);
+
+    const sitemapEntries = useSitemaps
+      ? (
+          await sitemapService.discover(
+            baseUrl,
+            robots.sitemaps,
+            this.userAgent,
+            signal
+          )
+        ).filter((e) => stripWww(hostnameOf(e.url) || "") === stripWww(baseDomain))
+      : [];
+
+    const canon = new UrlCanonicalizer(baseDomain, stripQueryParams);
+    const pathOf = (key: string) => getPathFromUrl(key);
+
+    const isInScope = (target: string) => {
+      const path = new URL(target).pathname;
+      if (excludePatterns.some((p) => matchesPathPattern(p, path)))
+        return false;
+      return (
+        !includePatterns.length ||
+        includePatterns.some((p) => matchesPathPattern(p, path))
+      );
+    };
+
+    // Alias path -> the path it was folded into; chains are resolved at the end
+    const aliases = new Map<string, Omit<PathAlias, "path">>();
+    const addAlias = (
+      path: string,
+      canonicalPath: string,
+      reason: PathAlias["reason"]
+    ) => {
+      if (path !== canonicalPath && !aliases.has(path))
+        aliases.set(path, { canonicalPath, reason });
+    };
+
+    const previousByKey = new Map<string, PreviousPage>();
+    for (const previous of previousPages || []) {
+      const clean = canon.clean(previous.url);
+      if (clean) previousByKey.set(canon.key(clean), previous);
+    }
+
+    const startUrl = canon.clean(baseUrl) || baseUrl;
+    const seen = new Set<string>([canon.key(startUrl)]);
+    const toCrawl: [string, number][] = [[startUrl, 0]];
+    const enqueue = (rawUrl: string, depth: number) => {
+      const target = canon.clean(rawUrl);
+      if (!target) return;
+      const key = canon.key(target);
+      addAlias(getPathFromUrl(rawUrl), pathOf(key), "normalized");
+      if (seen.has(key) || depth > maxDepth || !isInScope(target)) return;
+      seen.add(key);
+      toCrawl.push([target, depth]);
+    };
+    // Sitemap URLs seed the frontier so pages with no inbound links are found
+    sitemapEntries.forEach((e) => enqueue(e.url, 1));
+
+    console.log(
+      `🕷️ Crawling ${baseUrl} (maxPages: ${maxPages}, maxDepth: ${maxDepth}, concurrency: ${concurrency})`
+    );
+
+    const results: Array<CrawlSlot<T> | undefined> = [];
+    const claimedKeys = new Set<string>();
+    const pathByHash = new Map<string, string>();
+    const robotsSkipped = new Set<string>();
+    const inFlight = new Set<Promise<void>>();
+    let attempted = 0;
+    let outOfTime = false;
+
+    const crawlOne = async (target: string, depth: number, slot: number) => {
+      let page: CrawlResult;
+      const previous = previousByKey.get(canon.key(target));
+      try {
+        page = await this.fetchPage(
+          target,
+          baseDomain,
+          signal,
+          throttle,
+          renderMode,
+          previous,
+          markdown
+        );
+      } catch (e) {
+        page = failedPage(target, e);
+      }
+      const entry: CrawlSlot<T> = { page, depth, duplicate: false };
+      results[slot] = entry;
+      if (!page.success) return;
+
+      const targetKey = canon.key(target);
+      const finalUrl = canon.clean(page.finalUrl || target);
+      if (!finalUrl) {
+        entry.page = failedPage(target, new Error("Redirected off-site"));
+        return;
+      }
+
+      // Resolve the page's identity: redirect target, then rel=canonical
+      let url = finalUrl;
+      let key = canon.key(finalUrl);
+      let reason: PathAlias["reason"] = "redirect";
+      const declared =
+        page.metadata.canonicalUrl && canon.clean(page.metadata.canonicalUrl);
+      if (declared && canon.key(declared) !== key) {
+        url = declared;
+        key = canon.key(declared);
+        reason = "canonical";
+      }
+      if (key !== targetKey) {
+        addAlias(pathOf(targetKey), pathOf(key), reason);
+        seen.add(key);
+      }
+      page.url = url;
+      page.path = pathOf(key);
+      page.contentHash = hashContent(page.metadata.bodyContent);
+      // A 304 carries the previous, already cleaned text; keep its fingerprint
+      page.fingerprint =
+        page.notModified && previous
+          ? previous.fingerprint
+          : fingerprintPage(page.metadata);
+
+      for (const link of page.metadata.links || []) enqueue(link, depth + 1);
+
+      if (claimedKeys.has(key)) {
+        entry.duplicate = true;
+        return;
+      }
+      claimedKeys.add(key);
+      if (dedupeContent && page.contentHash) {
+        const original = pathByHash.get(page.contentHash);
+        if (original) {
+          addAlias(page.path, original, "duplicate-content");
+          entry.duplicate = true;
+          return;
+        }
+        pathByHash.set(page.contentHash, page.path);
+      }
+    };
+
+    while ((toCrawl.length || inFlight.size) && attempted < maxPages) {
+      if (signal?.aborted) {
+        console.log("🛑 Crawl cancelled");
+        throw new Error("CANCELLED");
+      }
+      if (Date.now() >= deadline) {
+        console.log(`⏰ Crawl time budget of ${timeBudgetMs}ms used up`);
+        outOfTime = true;
+        break;
+      }
+
+      // Pool is full, or the queue is waiting on links from in-flight pages
+      if (!toCrawl.length || inFlight.size >= concurrency) {
+        await Promise.race(inFlight);
+        continue;
+      }
+
+      const [target, depth] = toCrawl.shift()!;
+      if (!robots.isAllowed(target)) {
+        robotsSkipped.add(pathOf(canon.key(target)));
+        continue;
+      }
+
+      const slot = attempted++;
+      onProgress?.(attempted);
+      const task: Promise<void> = crawlOne(target, depth, slot).finally(() =>
+        inFlight.delete(task)
+      );
+      inFlight.add(task);
+    }
+    await Promise.all(inFlight);
+    if (signal?.aborted) throw new Error("CANCELLED");
+
+    const finished = results.filter((r): r is CrawlSlot<T> => !!r);
+    const succeeded = finished.filter((r) => r.page.success && !r.duplicate);
+    const crawledPaths = new Set(succeeded.map((r) => r.page.path));
+    const stopReason: CrawlSummary["stopReason"] = outOfTime
+      ? "time-budget"
+      : attempted >= maxPages && toCrawl.length
+      ? "max-pages"
+      : "completed";
+    const resolvedAliases = resolveAliases(aliases, crawledPaths);
+
+    let changes: CrawlChanges | undefined;
+    if (previousPages) {
+      const before = new Map(
+        previousPages.map((p) => [p.path, p.fingerprint])
+      );
+      changes = { added: [], changed: [], unchanged: [], removed: [] };
+      for (const { page } of succeeded) {
+        const fingerprint = before.get(page.path);
+        if (fingerprint === undefined) changes.added.push(page.path);
+        else if (fingerprint === page.fingerprint)
+          changes.unchanged.push(page.path);
+        else changes.changed.push(page.path);
+      }
+      // A crawl cut short can't tell a missing page from one not reached yet
+      if (stopReason === "completed") {
+        const aliasPaths = new Set(resolvedAliases.map((a) => a.path));
+        changes.removed = previousPages
+          .map((p) => p.path)
+          .filter((path) => !crawledPaths.has(path) && !aliasPaths.has(path))
+          .filter((path) => isInScope(new URL(path, baseUrl).href));
+      }
+    }
+
+    // Template blocks (menus, footers) repeat across pages; strip them before
+    // processors see the text
+    const cleaned = removeRepeatedBlocks(
+      succeeded.map((r) => r.page.metadata.bodyContent || "")
+    );
+    succeeded.forEach((r, i) => (r.page.metadata.bodyContent = cleaned[i]));
+
+    if (processPage) {
+      for (const r of succeeded) {
+        try {
+          r.output = await processPage(r.page, r.depth);
+        } catch (e) {
+          console.warn(`⚠️ Page processor failed for ${r.page.url}:`, e);
+        }
+      }
+    }
+
+    console.log(
+      `🏁 Crawl finished: ${attempted} attempted, ${succeeded.length} unique pages, ${aliases.size} aliases, queue empty: ${
+        toCrawl.length === 0
+      }`
+    );
+
+    return {
+      baseUrl,
+      baseDomain,
+      startPage: results[0]?.page.success ? results[0].page : undefined,
+      pages: succeeded.map((r) => r.page),
+      processed: processPage
+        ? succeeded
+            .filter(
+              (r): r is CrawlSlot<T> & { output: T } => r.output !== undefined
+            )
+            .map((r) => r.output)
+        : succeeded.map((r) => r.page),
+      failedPages: finished.filter((r) => !r.page.success).map((r) => r.page),
+      totalPagesCrawled: attempted,
+      robotsSkippedPaths: Array.from(robotsSkipped).sort(),
+      sitemapEntries: sitemapEntries
+        .map(({ url: entryUrl, ...entry }) => {
+          const clean = canon.clean(entryUrl);
+          return {
+            path: clean ? pathOf(canon.key(clean)) : getPathFromUrl(entryUrl),
+            ...entry,
+          };
+        })
+        .filter((e) => crawledPaths.has(e.path)),
+      aliases: resolvedAliases,
+      summary: {
+        maxDepth,
+        maxPages,
+        includePatterns,
+        excludePatterns,
+        timeBudgetMs,
+        renderMode,
+        renderedPages: succeeded.filter((r) => r.page.rendered).length,
+        notModifiedPages: succeeded.filter((r) => r.page.notModified).length,
+        stopReason,
+        durationMs: Date.now() - startedAt,
+      },
+      changes,
+    };
+  }
+}
+
+/**
+ * Hash of everything about a page that ends up in llms.txt, to tell whether
+ * it changed between crawls
+ */
+function fingerprintPage(metadata: PageMetadata): string {
+  return crypto
+    .createHash("sha1")
+    .update(
+      [
+        metadata.title,
+        metadata.description,
+        metadata.keywords || "",
+        metadata.bodyContent || "",
+      ].join("\n")
+    )
+    .digest("hex");
+}
+
+/**
+ * Match a URL path against a glob: `*` matches within one segment, `**`
+ * across segments. "/docs/**" also matches "/docs" itself.
+ */
+export function matchesPathPattern(pattern: string, path: string): boolean {
+  const regex = pattern
+    .split(/(\*\*\/?|\*)/)
+    .map((part) => {
+      if (part === "**/" || part === "**") return "(?:.*)";
+      if (part === "*") return "[^/]*";
+      return part.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("")
+    .replace(/\/\(\?:\.\*\)$/, "(?:/.*)?");
+  return new RegExp(`^${regex}$`).test(path);
+}
+
+export function getPathFromUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    let path = u.pathname;
+    if (path.endsWith("/") && path !== "/") path = path.slice(0, -1);
+    if (u.search) path += u.search;
+    if (u.hash) path += u.hash;
+    return path || "/";
+  } catch {
+    return "/";
+  }
+}
+
+// Follow alias chains to a crawled path; drop aliases that never landed on one
+function resolveAliases(
+  aliases: Map<string, Omit<PathAlias, "path">>,
+  crawledPaths: Set<string>
+): PathAlias[] {
+  const resolved: PathAlias[] = [];
+  for (const [path, alias] of aliases) {
+    if (crawledPaths.has(path)) continue;
+    let target = alias.canonicalPath;
+    for (let hops = 0; !crawledPaths.has(target) && hops < 10; hops++) {
+      const next = aliases.get(target);
+      if (!next) break;
+      target = next.canonicalPath;
+    }
+    if (crawledPaths.has(target))
+      resolved.push({ path, canonicalPath: target, reason: alias.reason });
+  }
+  return resolved.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function normalizeStartUrl(url: string): string {
+  return !url.startsWith("http://") && !url.startsWith("https://")
+    ? `https://${url}`
+    : url;
+}
+
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+function failedPage(url: string, e: unknown): CrawlResult {
+  return {
+    url,
+    path: getPathFromUrl(url),
+    metadata: { title: "", description: "", links: [], bodyContent: "" },
+    success: false,
+    error: e instanceof Error ? e.message : "Unknown error",
+  };
+}
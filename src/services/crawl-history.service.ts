@@ -0,0 +1,183 @@
+import mongoose from "mongoose";
+import { URL } from "url";
+import { CrawlResultModel } from "../models";
+import { AIGeneratedContent, PageSnapshot } from "../types";
+import type { PreviousPage } from "./crawl-engine.service";
+import type { WebsiteData } from "./web-crawler.service";
+import { stripWww } from "./url-canonicalizer.service";
+
+// A completed crawl of a site as stored in CrawlResultModel
+export interface CrawlSnapshot {
+  id: string;
+  url: string;
+  crawledAt: Date;
+  websiteData: WebsiteData;
+  aiGeneratedContent: AIGeneratedContent[];
+}
+
+export interface PreviousCrawl {
+  crawledAt: Date;
+  pages: PreviousPage[];
+  aiGeneratedContent: AIGeneratedContent[];
+}
+
+/**
+ * Stored crawls of a site: the previous run for incremental re-crawls and
+ * snapshots to compare with each other
+ */
+export class CrawlHistoryService {
+  /**
+   * Latest completed crawl of the same site (www-insensitive) by the same
+   * user that recorded page snapshots, or undefined when there is none.
+   * Demo users have no history to reuse.
+   */
+  async findPrevious(
+    url: string,
+    user?: string
+  ): Promise<PreviousCrawl | undefined> {
+    const host = siteHost(url);
+    if (!host || !user) return undefined;
+
+    try {
+      const record = await CrawlResultModel.findOne({
+        ...siteFilter(host, user),
+        "crawledData.pageSnapshots.0": { $exists: true },
+      })
+        .sort({ timestamp: -1 })
+        .lean();
+      if (!record) return undefined;
+
+      const snapshot = toSnapshot(record);
+      const data = snapshot.websiteData;
+      const metaByPath = new Map(data.pageMetadatas.map((m) => [m.path, m]));
+      const pages: PreviousPage[] = data.pageSnapshots
+        .filter((page: PageSnapshot) => metaByPath.has(page.path))
+        .map((page: PageSnapshot) => {
+          const meta = metaByPath.get(page.path)!;
+          return {
+            ...page,
+            metadata: {
+              title: meta.title || "",
+              description: meta.description || "",
+              keywords: meta.keywords,
+              bodyContent: meta.bodyContent,
+              headings: meta.headings,
+              links: page.links || [],
+            },
+          };
+        });
+
+      console.log(
+        `🗂️ Found previous crawl of ${host} from ${snapshot.crawledAt} (${pages.length} pages)`
+      );
+      return {
+        crawledAt: snapshot.crawledAt,
+        pages,
+        aiGeneratedContent: snapshot.aiGeneratedContent,
+      };
+    } catch (error) {
+      console.warn("⚠️ Could not load previous crawl, crawling in full:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * A user's completed crawls of a domain, newest first, without their page
+   * data
+   */
+  async listSnapshots(
+    domain: string,
+    user: string,
+    limit = 20
+  ): Promise<Array<{ id: string; url: string; crawledAt: Date }>> {
+    const host = siteHost(domain);
+    if (!host) return [];
+    const records = await CrawlResultModel.find(siteFilter(host, user))
+      .sort({ timestamp: -1 })
+      .limit(limit)
+      .select({ url: 1, timestamp: 1 })
+      .lean();
+    return records.map((r: any) => ({
+      id: String(r._id),
+      url: r.url,
+      crawledAt: r.timestamp,
+    }));
+  }
+
+  /**
+   * One of a user's crawls of a domain by id, or else the newest one (before
+   * `before`, when given). Undefined when it doesn't exist or belongs to
+   * another site or user.
+   */
+  async getSnapshot(
+    domain: string,
+    user: string,
+    options: { id?: string; before?: Date } = {}
+  ): Promise<CrawlSnapshot | undefined> {
+    const host = siteHost(domain);
+    if (!host) return undefined;
+    const { id, before } = options;
+    if (id && !mongoose.isValidObjectId(id)) return undefined;
+
+    const record = id
+      ? await CrawlResultModel.findOne({
+          _id: id,
+          ...siteFilter(host, user),
+        }).lean()
+      : await CrawlResultModel.findOne({
+          ...siteFilter(host, user),
+          ...(before && { timestamp: { $lt: before } }),
+        })
+          .sort({ timestamp: -1 })
+          .lean();
+    return record ? toSnapshot(record) : undefined;
+  }
+}
+
+// Bare hostname of a URL or domain, without www
+function siteHost(urlOrDomain: string): string | undefined {
+  try {
+    const url = /^https?:\/\//i.test(urlOrDomain)
+      ? urlOrDomain
+      : `https://${urlOrDomain}`;
+    return stripWww(new URL(url).hostname.toLowerCase());
+  } catch {
+    return undefined;
+  }
+}
+
+// A user's completed crawls with page data whose start URL is on the host
+function siteFilter(host: string, user: string) {
+  return {
+    user,
+    url: {
+      $regex: `^https?://(www\\.)?${escapeRegex(host)}(?=[:/?#]|$)`,
+      $options: "i",
+    },
+    jobStatus: "completed",
+    "crawledData.pageMetadatas": { $exists: true },
+  };
+}
+
+function toSnapshot(record: any): CrawlSnapshot {
+  return {
+    id: String(record._id),
+    url: record.url,
+    crawledAt: record.timestamp,
+    websiteData: {
+      ...record.crawledData,
+      pageSnapshots: record.crawledData.pageSnapshots || [],
+    },
+    // SSE runs store AI output with the crawl data, jobs in the result
+    aiGeneratedContent:
+      record.crawledData.aiGeneratedContent ||
+      record.result?.aiGeneratedContent ||
+      [],
+  };
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export const crawlHistoryService = new CrawlHistoryService();
@@ -0,0 +1,137 @@
+export interface HostThrottleOptions {
+  maxConcurrentPerHost: number;
+  minDelayMs: number; // Minimum gap between request starts on one host
+  maxBackoffMs: number;
+}
+
+interface HostState {
+  active: number;
+  nextAllowedAt: number;
+  minDelayMs: number;
+  backoffMs: number;
+  waiters: Array<() => void>;
+}
+
+const DEFAULT_OPTIONS: HostThrottleOptions = {
+  maxConcurrentPerHost: parseInt(process.env.CRAWL_PER_HOST_CONCURRENCY || "2"),
+  minDelayMs: parseInt(process.env.CRAWL_PER_HOST_DELAY_MS || "250"),
+  maxBackoffMs: 60000,
+};
+
+/**
+ * Per-host politeness for one crawl session: caps concurrent requests and
+ * spaces request starts per host, and backs off when a host answers 429/503.
+ * Create one per crawl so sessions never share timing state.
+ */
+export class HostThrottle {
+  private hosts = new Map<string, HostState>();
+  private options: HostThrottleOptions;
+
+  constructor(options: Partial<HostThrottleOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Raise the minimum delay for a host (e.g. from robots.txt Crawl-delay)
+   */
+  setMinDelay(host: string, delayMs: number): void {
+    const state = this.getState(host);
+    state.minDelayMs = Math.max(state.minDelayMs, delayMs);
+  }
+
+  /**
+   * Wait for a request slot on the host. The returned function releases it.
+   */
+  async acquire(host: string, signal?: AbortSignal): Promise<() => void> {
+    const state = this.getState(host);
+
+    while (true) {
+      if (signal?.aborted) throw new Error("CANCELLED");
+
+      const now = Date.now();
+      if (
+        state.active < this.options.maxConcurrentPerHost &&
+        now >= state.nextAllowedAt
+      ) {
+        state.active++;
+        state.nextAllowedAt = now + Math.max(state.minDelayMs, state.backoffMs);
+        let released = false;
+        return () => {
+          if (released) return;
+          released = true;
+          state.active--;
+          this.wake(state);
+        };
+      }
+
+      // Full: wait for a release. Otherwise wait out the delay.
+      await new Promise<void>((resolve) => {
+        const timer =
+          state.active < this.options.maxConcurrentPerHost
+            ? setTimeout(done, state.nextAllowedAt - now)
+            : undefined;
+        function done() {
+          if (timer) clearTimeout(timer);
+          signal?.removeEventListener("abort", done);
+          resolve();
+        }
+        state.waiters.push(done);
+        signal?.addEventListener("abort", done);
+      });
+    }
+  }
+
+  /**
+   * Feed a response status back. 429/503 back off (honoring Retry-After);
+   * other responses let an existing backoff decay.
+   */
+  reportResponse(host: string, status: number, retryAfter?: string): void {
+    const state = this.getState(host);
+    if (status === 429 || status === 503) {
+      const requested = parseRetryAfter(retryAfter);
+      state.backoffMs = Math.min(
+        requested ?? Math.max(1000, state.backoffMs * 2),
+        this.options.maxBackoffMs
+      );
+      state.nextAllowedAt = Math.max(
+        state.nextAllowedAt,
+        Date.now() + state.backoffMs
+      );
+      console.warn(
+        `🐢 ${host} responded ${status}, backing off ${state.backoffMs}ms`
+      );
+    } else if (state.backoffMs) {
+      state.backoffMs = state.backoffMs < 200 ? 0 : state.backoffMs / 2;
+    }
+  }
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = {
+        active: 0,
+        nextAllowedAt: 0,
+        minDelayMs: this.options.minDelayMs,
+        backoffMs: 0,
+        waiters: [],
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private wake(state: HostState): void {
+    const waiters = state.waiters;
+    state.waiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(value?: string): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,26 @@
+import fs from "fs";
+import path from "path";
+import * as cheerio from "cheerio";
+import { htmlToMarkdown } from "./html-to-markdown.service";
+
+// Each <name>.html is converted and compared with <name>.md
+const FIXTURES = path.join(__dirname, "__fixtures__", "html-to-markdown");
+const PAGE_URL = "https://example.com/docs/page";
+
+const fixtures = fs
+  .readdirSync(FIXTURES)
+  .filter((file) => file.endsWith(".html"))
+  .map((file) => file.replace(/\.html$/, ""));
+
+describe("htmlToMarkdown golden files", () => {
+  it("has fixtures", () => {
+    expect(fixtures.length).toBeGreaterThan(0);
+  });
+
+  it.each(fixtures)("converts %s.html", (name) => {
+    const html = fs.readFileSync(path.join(FIXTURES, `${name}.html`), "utf8");
+    const expected = fs.readFileSync(path.join(FIXTURES, `${name}.md`), "utf8");
+
+    expect(htmlToMarkdown(cheerio.load(html), PAGE_URL) + "\n").toBe(expected);
+  });
+});
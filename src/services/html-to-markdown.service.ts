@@ -0,0 +1,366 @@
+import * as cheerio from "cheerio";
+import { URL } from "url";
+
+interface ConvertContext {
+  inTable: boolean; // Table cells must stay on one line
+}
+
+const SKIPPED_ELEMENTS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "head",
+  "svg",
+  "iframe",
+  "input",
+  "select",
+  "textarea",
+  "button",
+]);
+
+const BLOCK_ELEMENTS = new Set([
+  "address",
+  "article",
+  "aside",
+  "body",
+  "details",
+  "div",
+  "dl",
+  "fieldset",
+  "figure",
+  "footer",
+  "form",
+  "header",
+  "main",
+  "nav",
+  "section",
+  "summary",
+]);
+
+/**
+ * Converts HTML to GitHub-flavored Markdown by walking the cheerio DOM.
+ * Relative links and image sources are resolved against the page URL
+ * (or its <base href>).
+ */
+export class HtmlToMarkdownConverter {
+  private baseUrl: string;
+
+  constructor(private $: cheerio.CheerioAPI, pageUrl: string) {
+    const baseHref = $("base[href]").attr("href");
+    this.baseUrl = pageUrl;
+    if (baseHref) {
+      try {
+        this.baseUrl = new URL(baseHref, pageUrl).href;
+      } catch {}
+    }
+  }
+
+  convert(root: cheerio.Cheerio<any> = this.$.root()): string {
+    const ctx: ConvertContext = { inTable: false };
+    return tidy(this.children(root[0], ctx));
+  }
+
+  private children(node: any, ctx: ConvertContext): string {
+    let out = "";
+    for (const child of node?.children || []) {
+      let piece = this.node(child, ctx);
+      if (!piece) continue;
+      // Whitespace never starts a line or ends one before a block
+      if (!out || out.endsWith("\n")) piece = piece.replace(/^ +/, "");
+      if (piece.startsWith("\n")) out = out.replace(/[ \t]+$/, "");
+      out += piece;
+    }
+    return out;
+  }
+
+  private node(node: any, ctx: ConvertContext): string {
+    if (node.type === "text") return node.data.replace(/\s+/g, " ");
+    if (node.type !== "tag") return "";
+
+    const name: string = node.name.toLowerCase();
+    if (SKIPPED_ELEMENTS.has(name)) return "";
+    const $el = this.$(node);
+
+    switch (name) {
+      case "h1":
+      case "h2":
+      case "h3":
+      case "h4":
+      case "h5":
+      case "h6": {
+        const text = singleLine(this.children(node, ctx));
+        return text ? block(`${"#".repeat(Number(name[1]))} ${text}`) : "";
+      }
+      case "p":
+        return block(this.children(node, ctx));
+      case "br":
+        return ctx.inTable ? " " : "  \n";
+      case "hr":
+        return block("---");
+      case "strong":
+      case "b":
+        return wrapInline(this.children(node, ctx), "**");
+      case "em":
+      case "i":
+        return wrapInline(this.children(node, ctx), "*");
+      case "del":
+      case "s":
+      case "strike":
+        return wrapInline(this.children(node, ctx), "~~");
+      case "code":
+        return inlineCode($el.text());
+      case "a":
+        return this.link(node, ctx);
+      case "img":
+        return this.image(node);
+      case "pre":
+        return this.codeBlock(node);
+      case "blockquote": {
+        const inner = tidy(this.children(node, ctx));
+        if (!inner) return "";
+        return block(
+          inner
+            .split("\n")
+            .map((line) => (line ? `> ${line}` : ">"))
+            .join("\n")
+        );
+      }
+      case "ul":
+      case "ol":
+        return this.list(node, ctx);
+      case "li":
+        // Stray <li> outside a list
+        return block(`- ${tidy(this.children(node, ctx))}`);
+      case "table":
+        return this.table(node, ctx);
+      case "dt":
+        return block(wrapInline(this.children(node, ctx), "**"));
+      case "dd":
+        return block(this.children(node, ctx));
+      case "figcaption":
+        return block(wrapInline(this.children(node, ctx), "*"));
+      default:
+        return BLOCK_ELEMENTS.has(name)
+          ? block(this.children(node, ctx))
+          : this.children(node, ctx);
+    }
+  }
+
+  private link(node: any, ctx: ConvertContext): string {
+    const text = this.children(node, ctx).trim();
+    const href = this.$(node).attr("href")?.trim();
+    if (!href || /^javascript:/i.test(href)) return text;
+    const url = this.absolute(href);
+    // A linked image keeps its own ![alt](src) syntax unescaped
+    const label = /^!\[.*\]\(.*\)$/.test(text)
+      ? text
+      : (text || url).replace(/([[\]])/g, "\\$1");
+    const title = this.$(node).attr("title");
+    return `[${label}](${escapeUrl(url)}${
+      title ? ` "${title.replace(/"/g, '\\"')}"` : ""
+    })`;
+  }
+
+  private image(node: any): string {
+    const $img = this.$(node);
+    const src = $img.attr("src") || $img.attr("data-src");
+    if (!src || src.startsWith("data:")) return "";
+    const alt = ($img.attr("alt") || "").replace(/\s+/g, " ").trim();
+    const title = $img.attr("title");
+    return `![${alt.replace(/([[\]])/g, "\\$1")}](${escapeUrl(
+      this.absolute(src)
+    )}${title ? ` "${title.replace(/"/g, '\\"')}"` : ""})`;
+  }
+
+  private codeBlock(node: any): string {
+    const $pre = this.$(node);
+    const $code = $pre.children("code").first();
+    const code = ($code.length ? $code : $pre).text().replace(/\n$/, "");
+    const language = codeLanguage($pre) || codeLanguage($code) || "";
+    // Fence must be longer than any backtick run inside the code
+    const longestRun = Math.max(
+      2,
+      ...(code.match(/`+/g) || []).map((run) => run.length)
+    );
+    const fence = "`".repeat(longestRun + 1);
+    return block(`${fence}${language}\n${code}\n${fence}`);
+  }
+
+  private list(node: any, ctx: ConvertContext): string {
+    const ordered = node.name.toLowerCase() === "ol";
+    let index = parseInt(this.$(node).attr("start") || "1") || 1;
+    const items: string[] = [];
+
+    for (const child of node.children || []) {
+      if (child.type !== "tag" || child.name.toLowerCase() !== "li") {
+        // A list nested directly in a list (invalid but common) belongs
+        // to the previous item
+        const nested = this.node(child, ctx).trim();
+        if (nested && items.length)
+          items[items.length - 1] += `\n${indent(nested, 2)}`;
+        continue;
+      }
+      const marker = ordered ? `${index++}. ` : "- ";
+      // Tight list: paragraphs inside an item stay on consecutive lines
+      const content = tidy(this.children(child, ctx)).replace(
+        /\n{2,}/g,
+        "\n"
+      );
+      items.push(marker + indent(content, marker.length).trimStart());
+    }
+    return items.length ? block(items.join("\n")) : "";
+  }
+
+  private table(node: any, ctx: ConvertContext): string {
+    const cellCtx = { ...ctx, inTable: true };
+    const $table = this.$(node);
+    const rows: string[][] = [];
+    const alignments: string[] = [];
+    let hasHeader = false;
+
+    // Rows of this table only, not of tables nested in its cells
+    $table
+      .find("tr")
+      .filter((_, tr) => this.$(tr).closest("table")[0] === node)
+      .each((rowIndex, tr) => {
+        const row: string[] = [];
+        const $cells = this.$(tr).children("th, td");
+        if (rowIndex === 0)
+          hasHeader =
+            this.$(tr).parent().is("thead") ||
+            $cells.filter("th").length === $cells.length;
+        $cells.each((_, cell) => {
+          const text = singleLine(this.children(cell, cellCtx)).replace(
+            /\|/g,
+            "\\|"
+          );
+          const span = parseInt(this.$(cell).attr("colspan") || "1") || 1;
+          if (rowIndex === 0)
+            for (let i = 0; i < span; i++)
+              alignments.push(cellAlignment(this.$(cell)));
+          row.push(text, ...Array(span - 1).fill(""));
+        });
+        if (row.length) rows.push(row);
+      });
+    if (!rows.length) return "";
+
+    const width = Math.max(...rows.map((r) => r.length));
+    const pad = (row: string[]) => [
+      ...row,
+      ...Array(width - row.length).fill(""),
+    ];
+    // GFM needs a header row; use an empty one when the table has none
+    const header = hasHeader ? pad(rows.shift()!) : Array(width).fill("");
+    const separator = Array.from({ length: width }, (_, i) => {
+      const align = alignments[i];
+      if (align === "center") return ":---:";
+      if (align === "right") return "---:";
+      if (align === "left") return ":---";
+      return "---";
+    });
+
+    const line = (cells: string[]) => `| ${cells.join(" | ")} |`;
+    return block(
+      [line(header), line(separator), ...rows.map((r) => line(pad(r)))].join(
+        "\n"
+      )
+    );
+  }
+
+  private absolute(url: string): string {
+    try {
+      return new URL(url, this.baseUrl).href;
+    } catch {
+      return url;
+    }
+  }
+}
+
+/**
+ * Convert a page's HTML to Markdown. Pass `root` to convert only part of it.
+ */
+export function htmlToMarkdown(
+  $: cheerio.CheerioAPI,
+  pageUrl: string,
+  root?: cheerio.Cheerio<any>
+): string {
+  return new HtmlToMarkdownConverter($, pageUrl).convert(root);
+}
+
+function block(content: string): string {
+  const trimmed = content.trim();
+  return trimmed ? `\n\n${trimmed}\n\n` : "";
+}
+
+function singleLine(content: string): string {
+  return content.replace(/\s+/g, " ").trim();
+}
+
+// Keep surrounding spaces outside the markers: "a **b** c", not "a** b **c"
+function wrapInline(content: string, marker: string): string {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return match[2]
+    ? `${match[1]}${marker}${match[2]}${marker}${match[3]}`
+    : content;
+}
+
+function inlineCode(code: string): string {
+  const text = code.replace(/\s+/g, " ");
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) || []).map((run) => run.length)
+  );
+  const ticks = "`".repeat(longestRun + 1);
+  const padding = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${ticks}${padding}${text}${padding}${ticks}`;
+}
+
+function codeLanguage($el: cheerio.Cheerio<any>): string | undefined {
+  if (!$el.length) return undefined;
+  const dataLang = $el.attr("data-lang") || $el.attr("data-language");
+  if (dataLang) return dataLang;
+  const match = ($el.attr("class") || "").match(
+    /(?:^|\s)(?:language|lang|highlight-source|highlight)-([\w+#-]+)/
+  );
+  return match?.[1];
+}
+
+function cellAlignment($cell: cheerio.Cheerio<any>): string {
+  const align =
+    $cell.attr("align") ||
+    ($cell.attr("style") || "").match(/text-align:\s*(\w+)/)?.[1];
+  return (align || "").toLowerCase();
+}
+
+function indent(text: string, width: number): string {
+  const pad = " ".repeat(width);
+  return text
+    .split("\n")
+    .map((line, i) => (i === 0 || !line ? line : pad + line))
+    .join("\n");
+}
+
+function escapeUrl(url: string): string {
+  return url.replace(/ /g, "%20").replace(/\(/g, "%28").replace(/\)/g, "%29");
+}
+
+// Collapse blank-line runs and trailing spaces, leaving fenced code untouched
+function tidy(markdown: string): string {
+  const lines: string[] = [];
+  let fence: string | null = null;
+  for (const raw of markdown.split("\n")) {
+    const fenceMatch = raw.trimStart().match(/^(`{3,})/);
+    if (fence) {
+      lines.push(raw);
+      if (fenceMatch && raw.trim() === fence) fence = null;
+      continue;
+    }
+    if (fenceMatch) fence = fenceMatch[1];
+    const line = raw.endsWith("  ") && raw.trim() ? raw : raw.trimEnd();
+    if (!line.trim() && (!lines.length || !lines[lines.length - 1].trim()))
+      continue;
+    lines.push(line.trim() ? line : "");
+  }
+  return lines.join("\n").trim();
+}
@@ -0,0 +1,472 @@
+import os from "os";
+import mongoose from "mongoose";
+import { createTwoFilesPatch } from "diff";
+import { CrawlRecord, CrawlResultModel } from "../models";
+import { JobRequest, JobResponse, JobType } from "../types";
+import { websiteAnalysisService } from "./website-analysis.service";
+import { llmsFullService } from "./llms-full.service";
+import { markdownGeneratorService } from "./markdown-generator.service";
+import { cleanupSessionRateLimiter } from "./ai.service";
+import { webhookService } from "./webhook.service";
+
+interface JobContext {
+  jobId: string;
+  user?: string;
+  signal: AbortSignal;
+  reportProgress: (percent: number, message: string) => void;
+}
+
+interface JobOutcome {
+  result: unknown;
+  crawledData?: unknown;
+}
+
+type JobPayload<T extends JobType> = Extract<
+  JobRequest,
+  { type: T }
+>["payload"];
+
+type JobHandler<T extends JobType> = (
+  payload: JobPayload<T>,
+  ctx: JobContext
+) => Promise<JobOutcome>;
+
+// A stored job, as a document or a plain object
+type JobRecord = CrawlRecord & { _id: mongoose.Types.ObjectId };
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || "2000");
+const HEARTBEAT_INTERVAL_MS = 10000;
+// A running job whose heartbeat is older than this belongs to a dead worker
+const STALE_AFTER_MS = 60000;
+const RETRY_BASE_DELAY_MS = 5000;
+
+export class JobQueueService {
+  private workerId = `${os.hostname()}:${process.pid}`;
+  private concurrency = parseInt(process.env.JOB_CONCURRENCY || "2");
+  private running = new Map<string, AbortController>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  private handlers: { [T in JobType]: JobHandler<T> } = {
+    "analyze-website": async (payload, ctx) => {
+      const sessionId = `job:${ctx.jobId}`;
+      try {
+        const { websiteData, response, rateLimitHit } =
+          await websiteAnalysisService.analyze({
+            url: payload.url,
+            aiEnrichment: payload.aiEnrichment,
+            incremental: payload.incremental,
+            maxPages: payload.maxPages,
+            includePatterns: payload.includePatterns,
+            excludePatterns: payload.excludePatterns,
+            timeBudgetMs: payload.timeBudgetMs,
+            renderMode: payload.renderMode,
+            aiProvider: payload.aiProvider,
+            aiModel: payload.aiModel,
+            signal: ctx.signal,
+            sessionId,
+            user: ctx.user,
+            jobId: ctx.jobId,
+            onProgress: ctx.reportProgress,
+          });
+        // Scheduled runs publish this file, so generate it with the result
+        const llmsTxt = websiteAnalysisService.generateLlmsTxt(
+          payload.url,
+          websiteData,
+          response,
+          {
+            bots: payload.bots,
+            aiEnrichment: payload.aiEnrichment,
+            format: payload.llmsTxtFormat,
+          }
+        );
+        return {
+          crawledData: websiteData,
+          result: { ...response, rateLimitHit, llmsTxt },
+        };
+      } finally {
+        cleanupSessionRateLimiter(sessionId);
+      }
+    },
+    "llms-full": async (payload, ctx) => {
+      ctx.reportProgress(1, "Generating llms-full.txt...");
+      const result = await llmsFullService.generateLLMsFull(
+        payload,
+        ctx.signal,
+        { user: ctx.user, jobId: ctx.jobId }
+      );
+      if (!result.success) throw new Error(result.error);
+      return { result };
+    },
+    markdown: async (payload, ctx) => {
+      ctx.reportProgress(1, "Generating markdown pages...");
+      const result = await markdownGeneratorService.generateMarkdownPages(
+        payload.websiteUrl,
+        {
+          signal: ctx.signal,
+          ai: { aiProvider: payload.aiProvider, aiModel: payload.aiModel },
+          usage: { user: ctx.user, jobId: ctx.jobId },
+        }
+      );
+      if (!result.success) throw new Error(result.error);
+      return { result };
+    },
+  };
+
+  /**
+   * Persist a new job in the queued state
+   */
+  async enqueue(
+    request: JobRequest,
+    options: {
+      user?: string;
+      email?: string;
+      maxPages?: number;
+      scheduleId?: string;
+    } = {}
+  ): Promise<JobResponse> {
+    const url =
+      "url" in request.payload ? request.payload.url : request.payload.websiteUrl;
+    const job = await CrawlResultModel.create({
+      url,
+      user: options.user,
+      email: options.email,
+      jobType: request.type,
+      scheduleId: options.scheduleId,
+      payload:
+        options.maxPages !== undefined
+          ? { ...request.payload, maxPages: options.maxPages }
+          : request.payload,
+      jobStatus: "queued",
+      progress: { percent: 0, message: "Queued" },
+    });
+    console.log(`📥 Queued ${request.type} job ${job._id} for ${url}`);
+    return this.toResponse(job);
+  }
+
+  /**
+   * A job of `user`; null when it doesn't exist or belongs to someone else
+   */
+  async getJob(id: string, user: string): Promise<JobResponse | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const job = await CrawlResultModel.findOne({
+      _id: id,
+      user,
+      jobType: { $exists: true },
+    });
+    return job ? this.toResponse(job) : null;
+  }
+
+  /**
+   * Jobs queued by a schedule, newest first
+   */
+  async listBySchedule(scheduleId: string, limit = 50): Promise<JobResponse[]> {
+    const jobs = await CrawlResultModel.find({ scheduleId })
+      .sort({ timestamp: -1 })
+      .limit(limit);
+    return jobs.map((job) => this.toResponse(job));
+  }
+
+  /**
+   * Cancel a queued or running job of `user`. Returns null when the job
+   * doesn't exist or isn't theirs; `cancelled` is false when it had already
+   * finished.
+   */
+  async cancel(
+    id: string,
+    user: string
+  ): Promise<{ job: JobResponse; cancelled: boolean } | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const cancelled = await CrawlResultModel.findOneAndUpdate(
+      {
+        _id: id,
+        user,
+        jobType: { $exists: true },
+        jobStatus: { $in: ["queued", "running"] },
+      },
+      {
+        $set: { jobStatus: "cancelled", finishedAt: new Date() },
+        $unset: { lockedBy: 1, lockedAt: 1 },
+      },
+      { new: true }
+    );
+    if (cancelled) {
+      // Running on this instance: stop right away instead of at the next heartbeat
+      this.running.get(id)?.abort();
+      console.log(`🛑 Cancelled job ${id}`);
+      void webhookService.emit(
+        user,
+        "job.cancelled",
+        this.eventData(cancelled)
+      );
+      return { job: this.toResponse(cancelled), cancelled: true };
+    }
+
+    const job = await this.getJob(id, user);
+    return job ? { job, cancelled: false } : null;
+  }
+
+  /**
+   * Start the worker loop. Safe to call more than once.
+   */
+  start(): void {
+    if (this.timer) return;
+    console.log(
+      `⚙️ Job worker ${this.workerId} started (concurrency: ${this.concurrency})`
+    );
+    this.timer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+    void this.poll();
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      await this.recoverStaleJobs();
+      while (this.running.size < this.concurrency) {
+        const job = await this.claimNext();
+        if (!job) break;
+        this.runJob(job).catch((err) =>
+          console.error(`❌ Job ${job._id} failed to run:`, err)
+        );
+      }
+    } catch (err) {
+      console.error("❌ Job worker poll failed:", err);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Atomically move the oldest due job to running so only one worker gets it
+  private async claimNext() {
+    return CrawlResultModel.findOneAndUpdate(
+      { jobStatus: "queued", runAfter: { $lte: new Date() } },
+      {
+        $set: {
+          jobStatus: "running",
+          lockedBy: this.workerId,
+          lockedAt: new Date(),
+          startedAt: new Date(),
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAfter: 1, timestamp: 1 }, new: true }
+    );
+  }
+
+  private async runJob(
+    job: mongoose.HydratedDocument<CrawlRecord>
+  ): Promise<void> {
+    const id = String(job._id);
+    const handler = this.handlers[job.jobType as JobType];
+    const controller = new AbortController();
+    const owned = { _id: id, jobStatus: "running", lockedBy: this.workerId };
+    let progress = { percent: 0, message: "Starting..." };
+
+    this.running.set(id, controller);
+    console.log(
+      `⚙️ Running ${job.jobType} job ${id} (attempt ${job.attempts}/${job.maxAttempts})`
+    );
+
+    const heartbeat = setInterval(async () => {
+      try {
+        const updated = await CrawlResultModel.updateOne(owned, {
+          $set: { lockedAt: new Date(), progress },
+        });
+        // Status changed under us - cancelled through the API on another instance
+        if (updated.matchedCount === 0) controller.abort();
+      } catch (err) {
+        console.error(`❌ Heartbeat failed for job ${id}:`, err);
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+      if (!handler) throw new Error(`Unknown job type: ${job.jobType}`);
+      const outcome = await handler(job.payload, {
+        jobId: id,
+        user: job.user ?? undefined,
+        signal: controller.signal,
+        reportProgress: (percent, message) => {
+          progress = { percent, message };
+        },
+      });
+      if (controller.signal.aborted) return;
+
+      const completed = await CrawlResultModel.findOneAndUpdate(
+        owned,
+        {
+          $set: {
+            jobStatus: "completed",
+            result: outcome.result,
+            crawledData: outcome.crawledData,
+            progress: { percent: 100, message: "Completed" },
+            finishedAt: new Date(),
+          },
+          $unset: { lockedBy: 1, lockedAt: 1, error: 1 },
+        },
+        { new: true }
+      );
+      console.log(`✅ Job ${id} completed`);
+      if (completed) void this.notifyCompleted(completed);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log(`🛑 Job ${id} stopped after cancellation`);
+        return;
+      }
+      const errorMsg = error instanceof Error ? error.message : "Unknown error";
+      const retry = job.attempts < job.maxAttempts;
+      await CrawlResultModel.updateOne(
+        owned,
+        retry
+          ? {
+              $set: {
+                jobStatus: "queued",
+                error: errorMsg,
+                runAfter: new Date(
+                  Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)
+                ),
+              },
+              $unset: { lockedBy: 1, lockedAt: 1 },
+            }
+          : {
+              $set: {
+                jobStatus: "failed",
+                error: errorMsg,
+                finishedAt: new Date(),
+              },
+              $unset: { lockedBy: 1, lockedAt: 1 },
+            }
+      );
+      console.error(
+        `❌ Job ${id} failed${retry ? ", will retry" : ""}: ${errorMsg}`
+      );
+      if (!retry) {
+        void this.notifyFailed({
+          ...job.toObject(),
+          jobStatus: "failed",
+          error: errorMsg,
+          finishedAt: new Date(),
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.running.delete(id);
+    }
+  }
+
+  /**
+   * Webhooks for a finished crawl, whether it ran as a job or over SSE:
+   * crawl.completed, plus llms.changed when its llms.txt differs from the
+   * one of the user's previous crawl of the same URL
+   */
+  async notifyCompleted(job: JobRecord): Promise<void> {
+    if (!job.user) return;
+    await webhookService.emit(
+      job.user,
+      "crawl.completed",
+      this.eventData(job)
+    );
+
+    const llmsTxt: string | undefined = job.result?.llmsTxt;
+    if (!llmsTxt) return;
+    try {
+      const previous = await CrawlResultModel.findOne({
+        _id: { $ne: job._id },
+        user: job.user,
+        url: job.url,
+        jobStatus: "completed",
+        "result.llmsTxt": { $exists: true },
+      })
+        .sort({ finishedAt: -1 })
+        .select({ "result.llmsTxt": 1 })
+        .lean<JobRecord>();
+      const before: string | undefined = previous?.result?.llmsTxt;
+      // The generation date alone doesn't count as a change
+      if (
+        !previous ||
+        before === undefined ||
+        stripDate(before) === stripDate(llmsTxt)
+      ) {
+        return;
+      }
+      await webhookService.emit(job.user, "llms.changed", {
+        jobId: String(job._id),
+        previousJobId: String(previous._id),
+        url: job.url,
+        llmsTxt,
+        diff: createTwoFilesPatch("llms.txt", "llms.txt", before, llmsTxt),
+      });
+    } catch (error) {
+      console.error(`❌ Could not compare llms.txt for job ${job._id}:`, error);
+    }
+  }
+
+  /**
+   * crawl.failed webhook for a crawl that gave up, whether it ran as a job or
+   * over SSE
+   */
+  async notifyFailed(job: JobRecord): Promise<void> {
+    if (!job.user) return;
+    await webhookService.emit(job.user, "crawl.failed", this.eventData(job));
+  }
+
+  // Results can be large; receivers fetch them from GET /api/jobs/:id
+  private eventData(job: JobRecord): Record<string, unknown> {
+    const { result, ...summary } = this.toResponse(job);
+    return { job: summary };
+  }
+
+  // Jobs left running by a crashed or restarted worker go back to the queue
+  private async recoverStaleJobs(): Promise<void> {
+    const stale = {
+      jobStatus: "running",
+      lockedAt: { $lt: new Date(Date.now() - STALE_AFTER_MS) },
+    };
+    const requeued = await CrawlResultModel.updateMany(
+      { ...stale, $expr: { $lt: ["$attempts", "$maxAttempts"] } },
+      {
+        $set: { jobStatus: "queued", runAfter: new Date() },
+        $unset: { lockedBy: 1, lockedAt: 1 },
+      }
+    );
+    const failed = await CrawlResultModel.updateMany(stale, {
+      $set: {
+        jobStatus: "failed",
+        error: "Worker stopped responding",
+        finishedAt: new Date(),
+      },
+      $unset: { lockedBy: 1, lockedAt: 1 },
+    });
+    if (requeued.modifiedCount || failed.modifiedCount) {
+      console.warn(
+        `♻️ Recovered stale jobs: ${requeued.modifiedCount} requeued, ${failed.modifiedCount} failed`
+      );
+    }
+  }
+
+  private toResponse(job: JobRecord): JobResponse {
+    return {
+      id: String(job._id),
+      type: job.jobType as JobType,
+      status: job.jobStatus,
+      url: job.url,
+      progress: {
+        percent: job.progress?.percent ?? 0,
+        message: job.progress?.message ?? undefined,
+      },
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      error: job.error ?? undefined,
+      result: job.result,
+      createdAt: job.timestamp?.toISOString(),
+      startedAt: job.startedAt?.toISOString(),
+      finishedAt: job.finishedAt?.toISOString(),
+    };
+  }
+}
+
+function stripDate(llmsTxt: string): string {
+  return llmsTxt.replace(/^# Last updated: .*$/m, "");
+}
+
+export const jobQueueService = new JobQueueService();
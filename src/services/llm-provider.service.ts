@@ -0,0 +1,323 @@
+import crypto from "crypto";
+import dotenv from "dotenv";
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIFetchError,
+} from "@google/generative-ai";
+import { AISelection, LLMProviderName, LLM_PROVIDERS } from "../types";
+
+dotenv.config();
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+export interface Completion {
+  text: string;
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+/**
+ * One LLM backend. Adapters throw an error whose message starts with
+ * "RATE_LIMIT_REACHED:" when the provider rate limits us, so callers can
+ * stop early regardless of the provider.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  // Has what it needs (API key) to make calls
+  readonly configured: boolean;
+  complete(request: CompletionRequest): Promise<Completion>;
+}
+
+// Any endpoint speaking the OpenAI chat completions API, x.ai included
+class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    readonly name: LLMProviderName,
+    private label: string,
+    private apiUrl: string,
+    private apiKey: string,
+    readonly defaultModel: string
+  ) {}
+
+  get configured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    const response = await fetch(`${this.apiUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: false,
+      }),
+      signal: request.signal,
+    });
+
+    if (response.status === 429) {
+      const errorText = await response.text();
+      console.error(`[${this.label}] Rate limit hit (429):`, errorText);
+      throw new Error("RATE_LIMIT_REACHED: " + errorText);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(
+        `[${this.label}] API error: ${response.status} -`,
+        errorText
+      );
+      throw new Error(
+        `${this.label} API error: ${response.status} - ${errorText}`
+      );
+    }
+
+    const data = (await response.json()) as {
+      choices?: { message?: { content?: string } }[];
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+    return {
+      text: data.choices?.[0]?.message?.content?.trim() || "",
+      usage: data.usage && {
+        promptTokens: data.usage.prompt_tokens ?? 0,
+        completionTokens: data.usage.completion_tokens ?? 0,
+      },
+    };
+  }
+}
+
+class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  private client?: GoogleGenerativeAI;
+
+  constructor(private apiKey: string, readonly defaultModel: string) {}
+
+  get configured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    this.client ??= new GoogleGenerativeAI(this.apiKey);
+    const system = request.messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+    const model = this.client.getGenerativeModel({
+      model: request.model,
+      ...(system && { systemInstruction: system }),
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+      },
+    });
+
+    try {
+      const result = await model.generateContent(
+        {
+          contents: request.messages
+            .filter((m) => m.role !== "system")
+            .map((m) => ({
+              role: m.role === "assistant" ? "model" : "user",
+              parts: [{ text: m.content }],
+            })),
+        },
+        { signal: request.signal }
+      );
+      const usage = result.response.usageMetadata;
+      return {
+        text: result.response.text().trim(),
+        usage: usage && {
+          promptTokens: usage.promptTokenCount,
+          completionTokens: usage.candidatesTokenCount,
+        },
+      };
+    } catch (error) {
+      if (
+        error instanceof GoogleGenerativeAIFetchError &&
+        error.status === 429
+      ) {
+        console.error("[Gemini] Rate limit hit (429):", error.message);
+        throw new Error("RATE_LIMIT_REACHED: " + error.message);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Offline provider for development and tests. Answers the page analysis
+ * prompts, single or batched, from the page data in the prompt itself, so
+ * the same input always gives the same output.
+ */
+class MockProvider implements LLMProvider {
+  readonly name = "mock";
+  readonly defaultModel = "mock-1";
+  readonly configured = true;
+
+  async complete(request: CompletionRequest): Promise<Completion> {
+    if (request.signal?.aborted) throw new Error("CANCELLED");
+    const prompt = request.messages.find((m) => m.role === "user")?.content;
+    // Batched prompts list each page under a "### Page N" heading
+    const pages = (prompt || "").split(/^### Page \d+$/m).slice(1);
+    const text = JSON.stringify(
+      pages.length
+        ? { pages: pages.map((page) => this.analyze(page)) }
+        : this.analyze(prompt || "")
+    );
+    return {
+      text,
+      usage: {
+        promptTokens: Math.ceil((prompt || "").length / 4),
+        completionTokens: Math.ceil(text.length / 4),
+      },
+    };
+  }
+
+  private analyze(page: string) {
+    const field = (label: string) => {
+      const line = new RegExp(`^(?:Content: )?${label}: *(.*)$`, "m");
+      return page.match(line)?.[1]?.trim() || "";
+    };
+    const path = field("Path") || "/";
+    const title = field("Title") || path;
+    const description = field("Description");
+    const keywords = Array.from(
+      new Set(
+        `${title} ${description}`
+          .toLowerCase()
+          .split(/[^a-z0-9]+/)
+          .filter((word) => word.length > 3)
+      )
+    ).slice(0, 5);
+    const hash = crypto.createHash("sha1").update(page).digest();
+    const pick = <T>(options: readonly T[], byte: number) =>
+      options[hash[byte] % options.length];
+
+    return {
+      path,
+      summary: `${title}${description ? ` - ${description}` : ""}`,
+      contextSnippet: `Mock analysis of ${path}.`,
+      keywords: keywords.length ? keywords : ["page"],
+      contentType: /blog|post/.test(path)
+        ? "blog"
+        : /doc/.test(path)
+        ? "docs"
+        : "page",
+      priority: path === "/" ? "high" : pick(["medium", "low"], 0),
+      aiUsageDirective: "allow",
+    };
+  }
+}
+
+/**
+ * Registry of LLM adapters. LLM_PROVIDER picks the default; without it the
+ * first provider with an API key is used (x.ai, Gemini, then OpenAI).
+ * LLM_MODEL overrides the default provider's model.
+ */
+export class LLMProviderService {
+  private providers: Record<LLMProviderName, LLMProvider> = {
+    xai: new OpenAICompatibleProvider(
+      "xai",
+      "X.AI",
+      process.env.XAI_API_URL || "https://api.x.ai/v1",
+      process.env.XAI_API_KEY || "",
+      process.env.XAI_MODEL || "grok-3-mini"
+    ),
+    gemini: new GeminiProvider(
+      process.env.GEMINI_API_KEY || "",
+      process.env.GEMINI_MODEL || "gemini-1.5-flash"
+    ),
+    openai: new OpenAICompatibleProvider(
+      "openai",
+      "OpenAI",
+      process.env.OPENAI_API_URL || "https://api.openai.com/v1",
+      process.env.OPENAI_API_KEY || "",
+      process.env.OPENAI_MODEL || "gpt-4o-mini"
+    ),
+    mock: new MockProvider(),
+  };
+
+  constructor() {
+    const configured = process.env.LLM_PROVIDER;
+    if (configured && !LLM_PROVIDERS.includes(configured as LLMProviderName)) {
+      console.warn(`⚠️ Unknown LLM_PROVIDER "${configured}", using defaults`);
+    }
+    const { provider } = this.resolve();
+    if (!provider.configured) {
+      console.warn(`⚠️ No API key found for LLM provider "${provider.name}"`);
+    }
+  }
+
+  get defaultProvider(): LLMProviderName {
+    const configured = process.env.LLM_PROVIDER as LLMProviderName;
+    if (LLM_PROVIDERS.includes(configured)) return configured;
+    return (
+      (["xai", "gemini", "openai"] as const).find(
+        (name) => this.providers[name].configured
+      ) || "xai"
+    );
+  }
+
+  /**
+   * Provider and model for a request; unset fields use the defaults
+   */
+  resolve(selection: AISelection = {}): {
+    provider: LLMProvider;
+    model: string;
+  } {
+    const name = selection.aiProvider || this.defaultProvider;
+    const provider = this.providers[name];
+    const model =
+      selection.aiModel ||
+      (name === this.defaultProvider && process.env.LLM_MODEL) ||
+      provider.defaultModel;
+    return { provider, model };
+  }
+
+  /**
+   * Error message when a provider asked for by a request can't be used
+   */
+  validate(selection: AISelection = {}): string | undefined {
+    const name = selection.aiProvider;
+    return name && !this.providers[name].configured
+      ? `AI provider "${name}" is not configured on this server`
+      : undefined;
+  }
+
+  /**
+   * Active provider for the health endpoints
+   */
+  describe(): {
+    provider: LLMProviderName;
+    model: string;
+    configured: boolean;
+    available: LLMProviderName[];
+  } {
+    const { provider, model } = this.resolve();
+    return {
+      provider: provider.name,
+      model,
+      configured: provider.configured,
+      available: LLM_PROVIDERS.filter(
+        (name) => this.providers[name].configured
+      ),
+    };
+  }
+}
+
+export const llmProviderService = new LLMProviderService();
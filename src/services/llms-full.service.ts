@@ -1,6 +1,16 @@
-import { LLMsFullPayload, LLMsFullGenerationResponse } from "../types";
-import { xaiService } from "./ai.service";
-import { webCrawlerService } from "./web-crawler.service";
+import {
+  AIEnrichmentStop,
+  AIGeneratedContent,
+  AISelection,
+  CrawlLimits,
+  CrawlSummary,
+  LLMsFullPayload,
+  LLMsFullGenerationResponse,
+} from "../types";
+import { AIEnrichmentError, xaiService } from "./ai.service";
+import { AIUsageContext, emptyUsageTotals } from "./ai-usage.service";
+import { CrawlResult, webCrawlerService } from "./web-crawler.service";
+import { CrawlOutcome } from "./crawl-engine.service";
 import dotenv from "dotenv";
 
 dotenv.config();
@@ -19,17 +29,17 @@ interface FullPageData {
 }
 
 export class LLMsFullService {
-  private rateLimiter = {
-    lastRequestTime: 0,
-    requestsPerSecond: 25,
-    minInterval: 1000 / 25, // 40ms between requests
-  };
-
   /**
-   * Generate comprehensive llms-full.txt content
+   * Generate comprehensive llms-full.txt content. AI calls are counted
+   * against `usage`'s user and job. With `crawled`, an earlier crawl of the
+   * site, its pages are used instead of crawling again and the payload's
+   * crawl settings are ignored.
    */
   async generateLLMsFull(
-    payload: LLMsFullPayload
+    payload: LLMsFullPayload,
+    signal?: AbortSignal,
+    usage: AIUsageContext = {},
+    crawled?: CrawlOutcome<CrawlResult>
   ): Promise<LLMsFullGenerationResponse> {
     try {
       console.log(
@@ -42,16 +52,38 @@ export class LLMsFullService {
         includeLinks = true,
         maxDepth = 3,
         aiEnrichment = false,
+        includePatterns,
+        excludePatterns,
+        maxPages,
+        timeBudgetMs,
+        renderMode,
+        aiProvider,
+        aiModel,
       } = payload;
 
       // Extract all pages and content
-      const pagesData = await this.extractAllPages(websiteUrl, maxDepth);
+      const { pagesData, crawl } = crawled
+        ? {
+            pagesData: crawled.pages.map(toFullPageData),
+            crawl: crawled.summary,
+          }
+        : await this.extractAllPages(websiteUrl, maxDepth, signal, {
+            includePatterns,
+            excludePatterns,
+            maxPages,
+            timeBudgetMs,
+            renderMode,
+          });
 
       // Generate the full markdown content
-      const content = await this.generateFullContent(pagesData, {
+      const totals = emptyUsageTotals();
+      const { content, aiStopped } = await this.generateFullContent(pagesData, {
         includeImages,
         includeLinks,
         aiEnrichment,
+        ai: { aiProvider, aiModel },
+        usage: { ...usage, totals },
+        signal,
       });
 
       const totalWords = content.split(/\s+/).length;
@@ -70,6 +102,9 @@ export class LLMsFullService {
         filename,
         totalPages: pagesData.length,
         totalWords,
+        crawl,
+        aiUsage: aiEnrichment ? totals : undefined,
+        aiStopped,
       };
     } catch (error) {
       console.error("❌ llms-full.txt generation failed:", error);
@@ -89,160 +124,33 @@ export class LLMsFullService {
    */
   private async extractAllPages(
     url: string,
-    maxDepth: number
-  ): Promise<FullPageData[]> {
+    maxDepth: number,
+    signal?: AbortSignal,
+    limits: CrawlLimits = {}
+  ): Promise<{ pagesData: FullPageData[]; crawl: CrawlSummary }> {
     console.log(`🕷️ Crawling website with max depth: ${maxDepth}`);
 
     try {
-      // Use the web crawler service directly to get the crawled data
-      const baseUrl = new URL(url).origin;
-      const discovered = new Set<string>();
-      const crawled = new Map<string, any>();
-      const toCrawl: [string, number][] = [[url, 0]];
-      let pages = 0;
-      const maxPages = 1000;
-
-      console.log(`🕷️ Starting direct crawl for ${url}`);
-
-      while (toCrawl.length && pages < maxPages) {
-        const [cur, depth] = toCrawl.shift()!;
-        if (discovered.has(cur) || depth > maxDepth) continue;
-        discovered.add(cur);
-        pages++;
-
-        console.log(
-          `📄 Crawling page ${pages}/${maxPages}: ${cur} (depth: ${depth})`
-        );
-
-        try {
-          // Rate limiting for cheerio requests
-          await this.enforceRateLimit();
-
-          // Use the web crawler's crawlPage method directly
-          const baseDomain = new URL(baseUrl).hostname;
-          const res = await webCrawlerService.crawlPage(cur, baseDomain);
-          crawled.set(cur, res);
-
-          if (res.success) {
-            console.log(`✅ Successfully crawled: ${res.path}`);
-            console.log(`   Title: "${res.metadata.title}"`);
-            console.log(
-              `   Body content length: ${
-                res.metadata.bodyContent?.length || 0
-              } chars`
-            );
-
-            // Add discovered links to crawl queue
-            if (res.metadata.links) {
-              for (const link of res.metadata.links) {
-                try {
-                  const abs = new URL(link, baseUrl).href;
-                  if (
-                    new URL(abs).hostname === baseDomain &&
-                    !discovered.has(abs)
-                  ) {
-                    toCrawl.push([abs, depth + 1]);
-                  }
-                } catch {}
-              }
-            }
-          } else {
-            console.log(`❌ Failed to crawl: ${cur} - ${res.error}`);
-          }
-        } catch (error) {
-          console.log(`❌ Error crawling ${cur}:`, error);
-        }
-
-        await new Promise((r) => setTimeout(r, 500));
-      }
-
-      // Convert crawled data to FullPageData format
-      const pagesData: FullPageData[] = [];
-
-      console.log(`📋 Processing ${crawled.size} crawled pages`);
-
-      for (const [url, crawlResult] of crawled.entries()) {
-        if (crawlResult.success) {
-          const bodyContent = crawlResult.metadata.bodyContent || "";
-
-          console.log(`📄 Processing page: ${crawlResult.path}`);
-          console.log(`   Title: "${crawlResult.metadata.title}"`);
-          console.log(`   Body content length: ${bodyContent.length} chars`);
-          console.log(`   Body preview: "${bodyContent.substring(0, 100)}..."`);
-
-          const pageData: FullPageData = {
-            url: url,
-            path: crawlResult.path,
-            title: crawlResult.metadata.title || "Untitled",
-            content: bodyContent,
-            links: crawlResult.metadata.links || [],
-            description: crawlResult.metadata.description || "",
-            keywords: crawlResult.metadata.keywords
-              ? crawlResult.metadata.keywords
-                  .split(",")
-                  .map((k: string) => k.trim())
-              : [],
-            lastModified: new Date().toISOString(),
-          };
-          pagesData.push(pageData);
-        }
-      }
+      const { processed: pagesData, summary } = await webCrawlerService.crawl(
+        url,
+        { ...limits, maxDepth, signal },
+        toFullPageData
+      );
 
       console.log(
         `📋 Successfully extracted ${pagesData.length} pages with body content`
       );
-      return pagesData;
+      return { pagesData, crawl: summary };
     } catch (error) {
+      if (signal?.aborted) throw new Error("CANCELLED");
       console.error("❌ Failed to extract pages:", error);
       throw new Error("Failed to crawl website");
     }
   }
 
   /**
-   * Extract data from a single page
-   */
-  private async extractPageData(url: string, page: any): Promise<FullPageData> {
-    const path = new URL(url).pathname;
-
-    // Extract content from the page
-    const content = page.markdown || page.html || "";
-
-    // Extract links
-    const links: string[] = [];
-    if (page.links && Array.isArray(page.links)) {
-      links.push(...page.links);
-    }
-
-    // Extract images
-    const images: string[] = [];
-    if (page.images && Array.isArray(page.images)) {
-      images.push(...page.images);
-    }
-
-    // Extract title
-    const title = page.metadata?.title || page.title || path;
-
-    // Extract description and keywords
-    const description: string | undefined = page.metadata?.description;
-    const keywords: string[] | undefined = page.metadata?.keywords
-      ? page.metadata.keywords.split(",").map((k: string) => k.trim())
-      : undefined;
-
-    return {
-      url,
-      path,
-      title,
-      content,
-      links,
-      images,
-      lastModified: page.metadata?.lastModified || new Date().toISOString(),
-      description,
-      keywords,
-    };
-  }
-
-  /**
-   * Generate the full markdown content
+   * Generate the full markdown content. Enrichment stops for the remaining
+   * pages once the user is rate limited or over their usage cap.
    */
   private async generateFullContent(
     pagesData: FullPageData[],
@@ -250,8 +158,11 @@ export class LLMsFullService {
       includeImages: boolean;
       includeLinks: boolean;
       aiEnrichment: boolean;
+      ai?: AISelection;
+      usage?: AIUsageContext;
+      signal?: AbortSignal;
     }
-  ): Promise<string> {
+  ): Promise<{ content: string; aiStopped?: AIEnrichmentStop }> {
     let content = `# LLMs Full Site Content\n`;
     content += `# Generated: ${new Date().toISOString()}\n`;
     content += `# Total Pages: ${pagesData.length}\n`;
@@ -266,25 +177,48 @@ export class LLMsFullService {
     content += `\n`;
 
     // Generate content for each page
+    let aiStopped: AIEnrichmentStop | undefined;
     for (const page of pagesData) {
-      content += await this.generatePageContent(page, options);
+      if (options.signal?.aborted) throw new Error("CANCELLED");
+      // One AI call covers both the summary and the analysis section
+      let aiContent: AIGeneratedContent | undefined;
+      if (options.aiEnrichment && !aiStopped) {
+        try {
+          aiContent = await xaiService.generateAIContent(
+            page.path,
+            page.content,
+            options.signal,
+            undefined,
+            options.ai,
+            options.usage
+          );
+        } catch (error) {
+          if (error instanceof AIEnrichmentError) {
+            if (error.reason === "cancelled") throw new Error("CANCELLED");
+            aiStopped = error.stop;
+          }
+          if (aiStopped) {
+            console.warn(`⚠️ Stopping AI enrichment: ${aiStopped.message}`);
+          } else {
+            console.warn(`⚠️ AI enrichment failed for ${page.path}:`, error);
+          }
+        }
+      }
+      content += this.generatePageContent(page, aiContent, options);
       content += `\n---\n\n`;
     }
 
-    return content;
+    return { content, aiStopped };
   }
 
   /**
    * Generate content for a single page
    */
-  private async generatePageContent(
+  private generatePageContent(
     page: FullPageData,
-    options: {
-      includeImages: boolean;
-      includeLinks: boolean;
-      aiEnrichment: boolean;
-    }
-  ): Promise<string> {
+    aiContent: AIGeneratedContent | undefined,
+    options: { includeImages: boolean; includeLinks: boolean }
+  ): string {
     let content = `# ${page.title}\n`;
     content += `**Path:** ${page.path}\n`;
     content += `**URL:** ${page.url}\n`;
@@ -295,45 +229,26 @@ export class LLMsFullService {
     if (page.keywords && page.keywords.length > 0)
       content += `**Keywords:** ${page.keywords.join(", ")}\n`;
     // Add AI summary
-    let summary = (page as any).summary;
-    if (options.aiEnrichment && !summary) {
-      try {
-        const aiContent = await xaiService.generateAIContent(
-          page.path,
-          page.content
-        );
-        summary = aiContent.summary;
-      } catch {}
-    }
-    if (summary) content += `**Summary:** ${summary}\n`;
+    if (aiContent?.summary) content += `**Summary:** ${aiContent.summary}\n`;
     content += `\n`;
 
     // Add AI enrichment if enabled
-    if (options.aiEnrichment) {
-      try {
-        const aiContent = await xaiService.generateAIContent(
-          page.path,
-          page.content
-        );
-
-        content += `## AI Analysis\n`;
-        if (aiContent.summary) {
-          content += `**Summary:** ${aiContent.summary}\n\n`;
-        }
-        if (aiContent.contextSnippet) {
-          content += `**Context:** ${aiContent.contextSnippet}\n\n`;
-        }
-        if (aiContent.keywords && aiContent.keywords.length > 0) {
-          content += `**Keywords:** ${aiContent.keywords.join(", ")}\n\n`;
-        }
-        content += `**Content Type:** ${aiContent.contentType}\n`;
-        content += `**Priority:** ${aiContent.priority}\n`;
-        content += `**AI Usage Directive:** ${aiContent.aiUsageDirective}\n`;
-        content += `**Generated At:** ${aiContent.generatedAt}\n`;
-        content += `**Model:** ${aiContent.model}\n\n`;
-      } catch (error) {
-        console.warn(`⚠️ AI enrichment failed for ${page.path}:`, error);
+    if (aiContent) {
+      content += `## AI Analysis\n`;
+      if (aiContent.summary) {
+        content += `**Summary:** ${aiContent.summary}\n\n`;
+      }
+      if (aiContent.contextSnippet) {
+        content += `**Context:** ${aiContent.contextSnippet}\n\n`;
+      }
+      if (aiContent.keywords && aiContent.keywords.length > 0) {
+        content += `**Keywords:** ${aiContent.keywords.join(", ")}\n\n`;
       }
+      content += `**Content Type:** ${aiContent.contentType}\n`;
+      content += `**Priority:** ${aiContent.priority}\n`;
+      content += `**AI Usage Directive:** ${aiContent.aiUsageDirective}\n`;
+      content += `**Generated At:** ${aiContent.generatedAt}\n`;
+      content += `**Model:** ${aiContent.model}\n\n`;
     }
 
     // Add main content
@@ -367,7 +282,7 @@ export class LLMsFullService {
    */
   async generateSitemapOverview(url: string): Promise<string> {
     try {
-      const pagesData = await this.extractAllPages(url, 2);
+      const { pagesData } = await this.extractAllPages(url, 2);
 
       let content = `# Site Overview\n`;
       content += `**Website:** ${url}\n`;
@@ -396,22 +311,6 @@ export class LLMsFullService {
     }
   }
 
-  /**
-   * Rate limiting enforcement
-   */
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.rateLimiter.lastRequestTime;
-
-    if (timeSinceLastRequest < this.rateLimiter.minInterval) {
-      const delay = this.rateLimiter.minInterval - timeSinceLastRequest;
-      console.log(`⏱️ Rate limiting: waiting ${delay}ms`);
-      await new Promise((resolve) => setTimeout(resolve, delay));
-    }
-
-    this.rateLimiter.lastRequestTime = Date.now();
-  }
-
   /**
    * Group pages by their depth in the site structure
    */
@@ -439,4 +338,19 @@ export function estimateCrawlTime(numPages: number): number {
   return Math.min(numPages, 1000) * 10;
 }
 
+function toFullPageData(page: CrawlResult): FullPageData {
+  return {
+    url: page.url,
+    path: page.path,
+    title: page.metadata.title || "Untitled",
+    content: page.metadata.bodyContent || "",
+    links: page.metadata.links || [],
+    description: page.metadata.description || "",
+    keywords: page.metadata.keywords
+      ? page.metadata.keywords.split(",").map((k) => k.trim())
+      : [],
+    lastModified: new Date().toISOString(),
+  };
+}
+
 export const llmsFullService = new LLMsFullService();
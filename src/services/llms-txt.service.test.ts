@@ -0,0 +1,249 @@
+import { llmsTxtService } from "./llms-txt.service";
+import { AIGeneratedContent, PathSelection } from "../types";
+
+describe("LlmsTxtService.generateSpec", () => {
+  const websiteData = {
+    title: "Example",
+    description: "Tools for\nexample sites.",
+    pageMetadatas: [
+      { path: "/", title: "Home", description: "The home page" },
+      { path: "/docs/setup", title: "Setup [beta]", description: "Install" },
+      { path: "/blog/launch", title: "Launch", description: "We launched" },
+    ],
+  };
+  const ai = (
+    path: string,
+    fields: Partial<AIGeneratedContent>
+  ): AIGeneratedContent => ({
+    path,
+    generatedAt: "2026-01-01T00:00:00Z",
+    model: "mock",
+    ...fields,
+  });
+
+  it("groups links into sections with optional ones last", () => {
+    const pathSelections: PathSelection[] = [
+      { path: "/", allow: true },
+      { path: "/docs/setup", allow: true },
+      { path: "/blog/launch", allow: true },
+      { path: "/privacy", allow: true, description: "Privacy policy" },
+      { path: "/admin", allow: false },
+      { path: "/old", allow: true, priority: "low" },
+    ];
+
+    const content = llmsTxtService.generate(
+      {
+        websiteData,
+        pathSelections,
+        aiGeneratedContent: [
+          ai("/docs/setup", { summary: "How to install the CLI." }),
+        ],
+        websiteUrl: "https://example.com",
+      },
+      "spec"
+    );
+
+    expect(content).toBe(`# Example
+
+> Tools for example sites.
+
+## Docs
+
+- [Setup \\[beta\\]](https://example.com/docs/setup): How to install the CLI.
+
+## Pages
+
+- [Home](https://example.com/): The home page
+
+## Blog
+
+- [Launch](https://example.com/blog/launch): We launched
+
+## Legal
+
+- [Privacy policy](https://example.com/privacy)
+
+## Optional
+
+- [/old](https://example.com/old)
+`);
+  });
+
+  it("takes the section and priority from AI content", () => {
+    const content = llmsTxtService.generateSpec({
+      websiteData,
+      pathSelections: [
+        { path: "/", allow: true },
+        { path: "/blog/launch", allow: true },
+        { path: "/secret", allow: true },
+      ],
+      aiGeneratedContent: [
+        ai("/", { contentType: "project" }),
+        ai("/blog/launch", { priority: "low" }),
+        ai("/secret", { aiUsageDirective: "disallow" }),
+      ],
+      websiteUrl: "https://example.com",
+    });
+
+    expect(content).toContain("## Projects\n\n- [Home](https://example.com/)");
+    expect(content).toContain(
+      "## Optional\n\n- [Launch](https://example.com/blog/launch)"
+    );
+    expect(content).not.toContain("/secret");
+  });
+
+  it("falls back to the host name and relative links without a URL", () => {
+    expect(
+      llmsTxtService.generateSpec({
+        websiteData: {},
+        pathSelections: [{ path: "/about", allow: true }],
+      })
+    ).toBe("# Website\n\n## Pages\n\n- [/about](/about)\n");
+    expect(
+      llmsTxtService.generateSpec({
+        websiteData: {},
+        pathSelections: [],
+        websiteUrl: "https://docs.example.com",
+      })
+    ).toBe("# docs.example.com\n");
+  });
+});
+
+describe("LlmsTxtService.validate", () => {
+  const codes = (content: string) =>
+    llmsTxtService.validate(content).issues.map((i) => [i.line, i.code]);
+
+  it("parses a valid file into its document model", () => {
+    const { document, issues } = llmsTxtService.validate(`# Example
+> Tools for
+> example sites.
+
+Some details.
+
+\`\`\`
+## not a section
+\`\`\`
+
+## Docs
+
+- [Setup \\[beta\\]](https://example.com/docs/setup): How to install
+* [API](https://example.com/api)
+
+## Optional
+
+- [Changelog](https://example.com/changelog)
+`);
+
+    expect(issues).toEqual([]);
+    expect(document).toEqual({
+      title: "Example",
+      summary: "Tools for example sites.",
+      details: ["Some details.", "```", "## not a section", "```"],
+      sections: [
+        {
+          name: "Docs",
+          line: 11,
+          optional: false,
+          links: [
+            {
+              name: "Setup [beta]",
+              url: "https://example.com/docs/setup",
+              notes: "How to install",
+              line: 13,
+            },
+            { name: "API", url: "https://example.com/api", line: 14 },
+          ],
+        },
+        {
+          name: "Optional",
+          line: 16,
+          optional: true,
+          links: [
+            {
+              name: "Changelog",
+              url: "https://example.com/changelog",
+              line: 18,
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("reports a missing title and summary", () => {
+    expect(codes("## Docs\n\n- [A](https://example.com/a)\n")).toEqual([
+      [1, "missing-h1"],
+      [1, "missing-summary"],
+    ]);
+  });
+
+  it("reports misplaced and repeated headings", () => {
+    expect(
+      codes(`Intro
+# Example
+> Summary
+# Again
+### Deep
+## Docs
+- [A](https://example.com/a)
+## docs
+- [B](https://example.com/b)
+`)
+    ).toEqual([
+      [1, "missing-summary"],
+      [2, "h1-not-first"],
+      [4, "multiple-h1"],
+      [5, "unexpected-heading"],
+      [8, "duplicate-section"],
+    ]);
+  });
+
+  it("reports bad section content and links", () => {
+    expect(
+      codes(`# Example
+> Summary
+## Optional
+## Docs
+Plain text
+- [Broken](https://example.com
+- [Relative](/docs)
+- [Invalid](https://[oops)
+- [Twice](https://example.com/a)
+- [Twice again](https://example.com/a)
+`)
+    ).toEqual([
+      [3, "empty-section"],
+      [3, "optional-not-last"],
+      [5, "unexpected-content"],
+      [6, "malformed-link"],
+      [7, "relative-url"],
+      [8, "invalid-url"],
+      [10, "duplicate-link"],
+    ]);
+  });
+});
+
+describe("LlmsTxtService.checkLinks", () => {
+  it("flags links off the site or to paths the crawl didn't find", () => {
+    const { document } = llmsTxtService.validate(`# Example
+> Summary
+## Docs
+- [Setup](https://www.example.com/docs/setup/)
+- [Setup as Markdown](https://example.com/docs/setup.md)
+- [Home as Markdown](https://example.com/index.html.md)
+- [Missing](https://example.com/missing)
+- [Elsewhere](https://other.com/docs)
+`);
+
+    const issues = llmsTxtService.checkLinks(
+      document,
+      "https://example.com",
+      ["/", "/docs/setup"]
+    );
+
+    expect(issues.map((i) => [i.line, i.code])).toEqual([
+      [7, "link-not-crawled"],
+      [8, "link-outside-domain"],
+    ]);
+  });
+});
@@ -0,0 +1,561 @@
+import {
+  AIGeneratedContent,
+  LLM_BOT_CONFIGS,
+  LLMBot,
+  LlmsTxtDocument,
+  LlmsTxtFormat,
+  LlmsTxtGenerationRequest,
+  LlmsTxtIssue,
+  PathSelection,
+} from "../types";
+import { stripWww } from "./url-canonicalizer.service";
+
+// The parts of a crawl the layouts use; a crawler WebsiteData or the fields
+// of a generate-llms-txt request
+export interface LlmsTxtWebsiteData {
+  title?: string;
+  description?: string;
+  url?: string;
+  metadata?: { url?: string; title?: string; description?: string };
+  paths?: string[];
+  pageMetadatas?: LlmsTxtGenerationRequest["pageMetadatas"];
+  totalPagesCrawled?: number;
+  totalLinksFound?: number;
+  uniquePathsFound?: number;
+}
+
+// A robots-style rule; the legacy layout lists paths by Allow or Disallow
+export interface LlmsTxtRule {
+  id: string;
+  userAgent: string;
+  type: "Allow" | "Disallow";
+  path: string;
+}
+
+export interface LlmsTxtInput {
+  websiteData: LlmsTxtWebsiteData;
+  pathSelections: PathSelection[];
+  rules?: LlmsTxtRule[];
+  selectedBots?: string[];
+  aiGeneratedContent?: AIGeneratedContent[];
+  enhancedFeatures?: { aiEnrichment?: boolean };
+  websiteUrl?: string; // Used by the spec layout to build absolute links
+}
+
+type PageMeta = NonNullable<LlmsTxtWebsiteData["pageMetadatas"]>[number];
+
+type ContentType = NonNullable<PathSelection["contentType"]>;
+
+// Section order and headings for the spec layout
+const SPEC_SECTIONS: Array<{ type: ContentType; heading: string }> = [
+  { type: "docs", heading: "Docs" },
+  { type: "page", heading: "Pages" },
+  { type: "project", heading: "Projects" },
+  { type: "blog", heading: "Blog" },
+  { type: "archive", heading: "Archive" },
+  { type: "terms", heading: "Legal" },
+];
+
+const CONTENT_TYPES = SPEC_SECTIONS.map((s) => s.type);
+
+// `- [name](url)` or `- [name](url): notes`
+const LINK_LINE = /^[-*]\s+\[((?:\\.|[^\]\\])+)\]\(([^)\s]+)\)(?:\s*:\s*(.*))?$/;
+
+export class LlmsTxtService {
+  /**
+   * Generate llms.txt content in the requested layout
+   */
+  generate(input: LlmsTxtInput, format: LlmsTxtFormat = "legacy"): string {
+    return format === "spec"
+      ? this.generateSpec(input)
+      : this.generateLegacy(input);
+  }
+
+  /**
+   * Layout following the llmstxt.org format: H1 title, blockquote summary,
+   * then H2 sections of `- [name](url): notes` links. Low-priority paths go
+   * under `## Optional` so agents can skip them when context is short.
+   */
+  generateSpec({
+    websiteData,
+    pathSelections,
+    aiGeneratedContent = [],
+    websiteUrl,
+  }: LlmsTxtInput): string {
+    const baseUrl =
+      websiteUrl || websiteData.url || websiteData.metadata?.url || "";
+    const title =
+      websiteData.title || websiteData.metadata?.title || hostnameOf(baseUrl);
+    const description =
+      websiteData.description || websiteData.metadata?.description || "";
+
+    const metaMap = new Map<string, PageMeta>();
+    (websiteData.pageMetadatas || []).forEach((m) => metaMap.set(m.path, m));
+    const aiContentMap = new Map<string, AIGeneratedContent>();
+    aiGeneratedContent.forEach((ai: AIGeneratedContent) =>
+      aiContentMap.set(ai.path, ai)
+    );
+
+    const sections = new Map<ContentType, string[]>();
+    const optional: string[] = [];
+
+    for (const selection of pathSelections) {
+      if (selection.allow === false) continue;
+      const meta = metaMap.get(selection.path);
+      const ai = aiContentMap.get(selection.path);
+      const directive = selection.aiUsageDirective || ai?.aiUsageDirective;
+      if (directive === "disallow") continue;
+
+      const contentType = this.resolveContentType(selection, ai);
+      const priority = selection.priority || ai?.priority;
+      const name = singleLine(
+        meta?.title || selection.description || selection.path
+      );
+      const notes = singleLine(
+        selection.summary || ai?.summary || meta?.description || ""
+      );
+      const url = baseUrl
+        ? new URL(selection.path, baseUrl).href
+        : selection.path;
+      const line = `- [${escapeLinkText(name)}](${url})${
+        notes ? `: ${notes}` : ""
+      }`;
+
+      if (priority === "low") {
+        optional.push(line);
+      } else {
+        if (!sections.has(contentType)) sections.set(contentType, []);
+        sections.get(contentType)!.push(line);
+      }
+    }
+
+    let content = `# ${singleLine(title) || "Website"}\n\n`;
+    if (description) content += `> ${singleLine(description)}\n\n`;
+    for (const { type, heading } of SPEC_SECTIONS) {
+      const links = sections.get(type);
+      if (!links?.length) continue;
+      content += `## ${heading}\n\n${links.join("\n")}\n\n`;
+    }
+    if (optional.length) {
+      content += `## Optional\n\n${optional.join("\n")}\n\n`;
+    }
+    return content.trimEnd() + "\n";
+  }
+
+  /**
+   * Parse an llms.txt file into its structured model and report spec
+   * violations with 1-based line numbers
+   */
+  validate(content: string): {
+    document: LlmsTxtDocument;
+    issues: LlmsTxtIssue[];
+  } {
+    const document: LlmsTxtDocument = {
+      title: null,
+      summary: null,
+      details: [],
+      sections: [],
+    };
+    const issues: LlmsTxtIssue[] = [];
+    const report = (
+      line: number,
+      severity: LlmsTxtIssue["severity"],
+      code: string,
+      message: string
+    ) => issues.push({ line, severity, code, message });
+
+    const sectionLines = new Map<string, number>();
+    const linkLines = new Map<string, number>();
+    let section: LlmsTxtDocument["sections"][number] | null = null;
+    let seenContent = false;
+    let inFence = false;
+    let summaryEndLine = 0;
+
+    content.split(/\r?\n/).forEach((raw, idx) => {
+      const lineNo = idx + 1;
+      const line = raw.trimEnd();
+
+      // Code fences in the details block are opaque
+      const isFence = /^\s*(```|~~~)/.test(line);
+      if (isFence) inFence = !inFence;
+      if (inFence || isFence) {
+        seenContent = true;
+        if (!section) document.details.push(line);
+        return;
+      }
+      if (!line.trim()) return;
+
+      const heading = line.match(/^(#{1,6})\s+(.*)$/);
+      if (heading && heading[1].length === 1) {
+        if (document.title !== null) {
+          report(lineNo, "error", "multiple-h1", "Only one H1 title is allowed");
+        } else {
+          if (seenContent)
+            report(
+              lineNo,
+              "error",
+              "h1-not-first",
+              "The H1 title must come before any other content"
+            );
+          document.title = heading[2].trim();
+        }
+        seenContent = true;
+        return;
+      }
+      seenContent = true;
+
+      if (heading && heading[1].length === 2) {
+        const name = heading[2].trim();
+        const key = name.toLowerCase();
+        if (sectionLines.has(key)) {
+          report(
+            lineNo,
+            "error",
+            "duplicate-section",
+            `Section "${name}" is already defined on line ${sectionLines.get(
+              key
+            )}`
+          );
+        } else {
+          sectionLines.set(key, lineNo);
+        }
+        section = { name, line: lineNo, optional: key === "optional", links: [] };
+        document.sections.push(section);
+        return;
+      }
+
+      if (heading) {
+        report(
+          lineNo,
+          "warning",
+          "unexpected-heading",
+          `H${heading[1].length} headings are not part of the llms.txt format; use H2 sections`
+        );
+        if (!section) document.details.push(line);
+        return;
+      }
+
+      if (!section) {
+        if (line.startsWith(">") && !document.details.length) {
+          const text = line.replace(/^>\s?/, "").trim();
+          if (document.summary === null) {
+            document.summary = text;
+          } else if (summaryEndLine === lineNo - 1) {
+            document.summary += ` ${text}`;
+          } else {
+            document.details.push(line);
+            return;
+          }
+          summaryEndLine = lineNo;
+          return;
+        }
+        document.details.push(line);
+        return;
+      }
+
+      if (!/^[-*]\s+/.test(line)) {
+        report(
+          lineNo,
+          "warning",
+          "unexpected-content",
+          `Section "${section.name}" should only contain link list items`
+        );
+        return;
+      }
+
+      const match = line.match(LINK_LINE);
+      if (!match) {
+        report(
+          lineNo,
+          "error",
+          "malformed-link",
+          "List items must use the form - [name](url): notes"
+        );
+        return;
+      }
+
+      const [, name, url, notes] = match;
+      if (!/^https?:\/\//i.test(url)) {
+        report(
+          lineNo,
+          "warning",
+          "relative-url",
+          `Link "${url}" should be an absolute URL`
+        );
+      } else if (!isValidUrl(url)) {
+        report(lineNo, "error", "invalid-url", `Link "${url}" is not a valid URL`);
+      }
+      if (linkLines.has(url)) {
+        report(
+          lineNo,
+          "warning",
+          "duplicate-link",
+          `Link "${url}" is already listed on line ${linkLines.get(url)}`
+        );
+      } else {
+        linkLines.set(url, lineNo);
+      }
+      section.links.push({
+        name: name.replace(/\\([\[\]])/g, "$1"),
+        url,
+        ...(notes ? { notes: notes.trim() } : {}),
+        line: lineNo,
+      });
+    });
+
+    if (document.title === null) {
+      report(1, "error", "missing-h1", "File must start with an H1 title (# Name)");
+    }
+    if (document.summary === null) {
+      report(
+        1,
+        "warning",
+        "missing-summary",
+        "Add a blockquote summary (> ...) after the title"
+      );
+    }
+    document.sections.forEach((sec, i) => {
+      if (!sec.links.length)
+        report(sec.line, "warning", "empty-section", `Section "${sec.name}" has no links`);
+      if (sec.optional && i !== document.sections.length - 1)
+        report(
+          sec.line,
+          "warning",
+          "optional-not-last",
+          "The Optional section should be the last section"
+        );
+    });
+
+    issues.sort((a, b) => a.line - b.line);
+    return { document, issues };
+  }
+
+  /**
+   * Check that every linked URL is on the site's domain and points at a
+   * path the crawler found. Links to `.md` variants match their HTML page.
+   */
+  checkLinks(
+    document: LlmsTxtDocument,
+    websiteUrl: string,
+    crawledPaths: string[]
+  ): LlmsTxtIssue[] {
+    const siteHost = stripWww(new URL(websiteUrl).hostname);
+    const known = new Set(crawledPaths.map(normalizePath));
+    const issues: LlmsTxtIssue[] = [];
+
+    for (const section of document.sections) {
+      for (const link of section.links) {
+        let target: URL;
+        try {
+          target = new URL(link.url, websiteUrl);
+        } catch {
+          continue; // Already reported as invalid-url
+        }
+        if (stripWww(target.hostname) !== siteHost) {
+          issues.push({
+            line: link.line,
+            severity: "error",
+            code: "link-outside-domain",
+            message: `Link "${link.url}" is outside ${siteHost}`,
+          });
+          continue;
+        }
+        const path = normalizePath(target.pathname + target.search);
+        const htmlPath = normalizePath(
+          path.replace(/\/index\.html\.md$/, "/").replace(/(\.html)?\.md$/, "")
+        );
+        if (!known.has(path) && !known.has(htmlPath)) {
+          issues.push({
+            line: link.line,
+            severity: "warning",
+            code: "link-not-crawled",
+            message: `Path "${path}" was not found while crawling ${siteHost}`,
+          });
+        }
+      }
+    }
+    return issues;
+  }
+
+  private resolveContentType(
+    selection: PathSelection,
+    ai?: AIGeneratedContent
+  ): ContentType {
+    if (selection.contentType) return selection.contentType;
+    if (ai?.contentType && CONTENT_TYPES.includes(ai.contentType as ContentType))
+      return ai.contentType as ContentType;
+
+    const l = selection.path.toLowerCase();
+    if (/\/(docs?|documentation|guides?|api|reference)(\/|$)/.test(l))
+      return "docs";
+    if (/\/(blog|news|posts?|articles?)(\/|$)/.test(l)) return "blog";
+    if (/\/(projects?|portfolio|case-studies)(\/|$)/.test(l)) return "project";
+    if (/\/(archives?)(\/|$)/.test(l)) return "archive";
+    if (/\/(terms|privacy|legal|cookies?)(\/|$)/.test(l)) return "terms";
+    return "page";
+  }
+
+  // Layout matching frontend Generator.tsx - kept byte-for-byte for existing customers
+  generateLegacy({
+    websiteData,
+    pathSelections,
+    rules = [],
+    selectedBots = [],
+    aiGeneratedContent = [],
+    enhancedFeatures = {},
+  }: LlmsTxtInput): string {
+    // Build quick metadata lookup
+    const metaMap = new Map<string, PageMeta>();
+    if (websiteData.pageMetadatas && Array.isArray(websiteData.pageMetadatas)) {
+      websiteData.pageMetadatas.forEach((m) => metaMap.set(m.path, m));
+    }
+    // Build AI content lookup
+    const aiContentMap = new Map<string, AIGeneratedContent>();
+    if (aiGeneratedContent && Array.isArray(aiGeneratedContent)) {
+      aiGeneratedContent.forEach((ai) => aiContentMap.set(ai.path, ai));
+    }
+    // --- DETAILS SECTION ---
+    let content = `# ${websiteData.title || "Website Overview"}\n`;
+    content += `# Website: ${
+      websiteData.url || websiteData.metadata?.url || ""
+    }\n`;
+    content += `# Last updated: ${new Date().toISOString().slice(0, 10)}\n`;
+    content += `# AI Enrichment: ${
+      enhancedFeatures.aiEnrichment ? "Enabled" : "Disabled"
+    }\n`;
+    content += `\n`;
+    if (websiteData.description) {
+      content += `> ${websiteData.description}\n\n`;
+    }
+    content += `## Company Information\n`;
+    content += `- **Name**: ${websiteData.title || "N/A"}\n`;
+    content += `- **Website**: ${
+      websiteData.url || websiteData.metadata?.url || ""
+    }\n`;
+    if (websiteData.totalPagesCrawled)
+      content += `- **Pages Crawled**: ${websiteData.totalPagesCrawled}\n`;
+    if (websiteData.totalLinksFound)
+      content += `- **Total Links Found**: ${websiteData.totalLinksFound}\n`;
+    if (websiteData.uniquePathsFound)
+      content += `- **Unique Paths Found**: ${websiteData.uniquePathsFound}\n`;
+    content += `- **Generated**: ${new Date().toISOString()}\n`;
+    content += `\n`;
+    content += `## Access Permissions for LLMs\n`;
+    content += `LLMs and indexing agents are encouraged to read and use this file for accurate citation and integration guidance.\n\n`;
+    // Add AI tool permissions section
+    const allBots = Object.keys(LLM_BOT_CONFIGS);
+    const allowedBots = selectedBots || [];
+    const disallowedBots = allBots.filter((b) => !allowedBots.includes(b));
+    content += `## AI Tool Permissions\n\n`;
+    content += `Allowed:\n`;
+    allowedBots.forEach((bot: string) => {
+      content += `- ${bot} (${LLM_BOT_CONFIGS[bot as LLMBot]?.description || ""})\n`;
+    });
+    content += `\nDisallowed:\n`;
+    disallowedBots.forEach((bot: string) => {
+      content += `- ${bot} (${LLM_BOT_CONFIGS[bot as LLMBot]?.description || ""})\n`;
+    });
+    content += `\n`;
+    // --- PATHS SECTION ---
+    content += `Navigation Structure\n----------------------\n`;
+    // List allowed paths
+    const allowedPaths = rules.filter((r) => r.type === "Allow");
+    if (allowedPaths.length > 0) {
+      content += `# Allowed Paths\n`;
+      allowedPaths.forEach((rule) => {
+        content += `- ${rule.path}\n`;
+        // Merge data from pathSelections, pageMetadatas (metaMap), and aiGeneratedContent (aiContentMap)
+        const pathData: {
+          title?: string;
+          description?: string;
+          keywords?: string;
+        } = pathSelections.find((p) => p.path === rule.path) || {};
+        const meta: Partial<PageMeta> = metaMap.get(rule.path) || {};
+        const aiContent: Partial<AIGeneratedContent> =
+          aiContentMap.get(rule.path) || {};
+        // Prefer richer data from meta and aiContent
+        if (meta.title) content += `    • Title: ${meta.title}\n`;
+        else if (pathData.title) content += `    • Title: ${pathData.title}\n`;
+        if (meta.description)
+          content += `    • Description: ${meta.description}\n`;
+        else if (pathData.description)
+          content += `    • Description: ${pathData.description}\n`;
+        if (meta.keywords) content += `    • Keywords: ${meta.keywords}\n`;
+        else if (pathData.keywords)
+          content += `    • Keywords: ${pathData.keywords}\n`;
+        if (aiContent.summary)
+          content += `    • AI Summary: ${aiContent.summary}\n`;
+        if (aiContent.contextSnippet)
+          content += `    • AI Context: ${aiContent.contextSnippet}\n`;
+        if (aiContent.contentType)
+          content += `    • Content Type: ${aiContent.contentType}\n`;
+        if (aiContent.priority)
+          content += `    • Priority: ${aiContent.priority}\n`;
+        if (aiContent.aiUsageDirective)
+          content += `    • AI Usage: ${aiContent.aiUsageDirective}\n`;
+        if (
+          enhancedFeatures.aiEnrichment &&
+          aiContent.keywords &&
+          aiContent.keywords.length > 0
+        ) {
+          content += `    • AI Keywords: ${aiContent.keywords.join(", ")}\n`;
+        }
+      });
+    }
+    // List disallowed paths
+    const disallowedPaths = rules.filter((r) => r.type === "Disallow");
+    if (disallowedPaths.length > 0) {
+      content += `# Disallowed Paths\n`;
+      disallowedPaths.forEach((rule) => {
+        content += `- ${rule.path}\n`;
+      });
+    }
+    content += `\n`;
+    // Sitemap section
+    if (websiteData.paths && websiteData.paths.length > 0) {
+      content += `Sitemap Structure\n-----------------\n`;
+      websiteData.paths.forEach((p) => {
+        content += `- ${p}\n`;
+      });
+      content += `\n`;
+    }
+    return content;
+  }
+}
+
+function singleLine(value: string): string {
+  return String(value).replace(/\s+/g, " ").trim();
+}
+
+function escapeLinkText(value: string): string {
+  return value.replace(/([\[\]])/g, "\\$1");
+}
+
+function isValidUrl(url: string): boolean {
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Same shape as the crawler's paths: no trailing slash except for the root
+function normalizePath(path: string): string {
+  const [pathname, search = ""] = path.split("?");
+  const trimmed =
+    pathname.length > 1 && pathname.endsWith("/")
+      ? pathname.slice(0, -1)
+      : pathname;
+  return `${trimmed || "/"}${search ? `?${search}` : ""}`;
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return "";
+  }
+}
+
+export const llmsTxtService = new LlmsTxtService();
@@ -1,6 +1,21 @@
-import { MarkdownGenerationResponse } from "../types";
-import { xaiService } from "./ai.service";
-import { webCrawlerService } from "./web-crawler.service";
+import {
+  AIEnrichmentStop,
+  AISelection,
+  AIUsageTotals,
+  LlmsTxtFormat,
+  MarkdownGenerationResponse,
+} from "../types";
+import { AIEnrichmentError, xaiService } from "./ai.service";
+import { AIUsageContext, emptyUsageTotals } from "./ai-usage.service";
+import {
+  CrawlResult,
+  webCrawlerService,
+  WebsiteData,
+} from "./web-crawler.service";
+import { CrawlOutcome } from "./crawl-engine.service";
+import { llmsTxtService } from "./llms-txt.service";
+import { llmsFullService } from "./llms-full.service";
+import JSZip from "jszip";
 import dotenv from "dotenv";
 
 dotenv.config();
@@ -16,28 +31,57 @@ interface MarkdownPage {
   };
 }
 
-export class MarkdownGeneratorService {
-  private rateLimiter = {
-    lastRequestTime: 0,
-    requestsPerSecond: 25,
-    minInterval: 1000 / 25, // 40ms between requests
-  };
+interface KeyPagesResult {
+  pages: MarkdownPage[];
+  websiteData: WebsiteData;
+  crawled: CrawlOutcome<CrawlResult>;
+}
+
+export interface MarkdownGenerationOptions {
+  signal?: AbortSignal;
+  ai?: AISelection;
+  usage?: AIUsageContext; // Page summaries are counted against its user and job
+}
+
+export interface MarkdownArchiveOptions extends MarkdownGenerationOptions {
+  llmsTxt?: string;
+  llmsFullTxt?: string;
+  llmsTxtFormat?: LlmsTxtFormat;
+}
 
+export interface MarkdownArchive {
+  archive: Buffer;
+  aiUsage: AIUsageTotals;
+  aiStopped?: AIEnrichmentStop;
+}
+
+// Longest file or directory name written to the archive
+const MAX_SEGMENT_LENGTH = 100;
+
+export class MarkdownGeneratorService {
   /**
    * Generate markdown versions of key pages
    */
   async generateMarkdownPages(
     websiteUrl: string,
-    signal?: AbortSignal
+    options: MarkdownGenerationOptions = {}
   ): Promise<MarkdownGenerationResponse> {
     try {
       console.log(`📝 Starting markdown generation for: ${websiteUrl}`);
 
       // Extract key pages
-      const keyPages = await this.extractKeyPages(websiteUrl, signal);
+      const { pages: keyPages } = await this.extractKeyPages(
+        websiteUrl,
+        options.signal
+      );
 
       // Generate markdown files
-      const files = await this.generateMarkdownFiles(keyPages, websiteUrl);
+      const totals = emptyUsageTotals();
+      const { files, aiStopped } = await this.generateMarkdownFiles(
+        keyPages,
+        websiteUrl,
+        { ...options, usage: { ...options.usage, totals } }
+      );
 
       console.log(`✅ Markdown generation completed:`, {
         totalFiles: files.length,
@@ -47,6 +91,8 @@ export class MarkdownGeneratorService {
       return {
         success: true,
         files,
+        aiUsage: totals,
+        aiStopped,
       };
     } catch (error) {
       console.error("❌ Markdown generation failed:", error);
@@ -59,77 +105,126 @@ export class MarkdownGeneratorService {
   }
 
   /**
-   * Extract key pages from the website
+   * Build a ZIP with one Markdown file per key page in a directory tree that
+   * mirrors the site's paths, plus index.md (sitemap), llms.txt and
+   * llms-full.txt at the root
+   */
+  async generateMarkdownArchive(
+    websiteUrl: string,
+    options: MarkdownArchiveOptions = {}
+  ): Promise<MarkdownArchive> {
+    const { signal } = options;
+    console.log(`🗜️ Building markdown archive for: ${websiteUrl}`);
+
+    const { pages, websiteData, crawled } = await this.extractKeyPages(
+      websiteUrl,
+      signal
+    );
+    const totals = emptyUsageTotals();
+    const usage = { ...options.usage, totals };
+    const { files, aiStopped } = await this.generateMarkdownFiles(
+      pages,
+      websiteUrl,
+      { ...options, usage }
+    );
+
+    const zip = new JSZip();
+    // Root files written below are reserved
+    const usedPaths = new Set(["index.md", "llms.txt", "llms-full.txt"]);
+    for (const file of files) {
+      zip.file(uniquePath(archivePath(file.path), usedPaths), file.content);
+    }
+
+    zip.file("index.md", this.renderSitemap(pages, websiteUrl));
+    zip.file(
+      "llms.txt",
+      options.llmsTxt ??
+        llmsTxtService.generate(
+          {
+            websiteData: { ...websiteData, url: websiteUrl },
+            pathSelections: webCrawlerService.convertToPathSelections(
+              websiteData.paths,
+              websiteData.sitemapEntries
+            ),
+            websiteUrl,
+          },
+          options.llmsTxtFormat || "spec"
+        )
+    );
+
+    let llmsFullTxt = options.llmsFullTxt;
+    if (llmsFullTxt === undefined) {
+      const result = await llmsFullService.generateLLMsFull(
+        { websiteUrl, ...options.ai },
+        signal,
+        usage,
+        crawled
+      );
+      if (signal?.aborted) throw new Error("CANCELLED");
+      if (result.success) llmsFullTxt = result.content;
+      else console.warn("⚠️ llms-full.txt left out of archive:", result.error);
+    }
+    if (llmsFullTxt !== undefined) zip.file("llms-full.txt", llmsFullTxt);
+
+    console.log(`✅ Markdown archive built:`, {
+      totalFiles: files.length,
+      websiteUrl,
+    });
+    return {
+      archive: await zip.generateAsync({
+        type: "nodebuffer",
+        compression: "DEFLATE",
+      }),
+      aiUsage: totals,
+      aiStopped,
+    };
+  }
+
+  /**
+   * Crawl the website once and pick its key pages. Their main content is
+   * converted to Markdown during the crawl, so no page is fetched twice.
    */
   private async extractKeyPages(
     websiteUrl: string,
     signal?: AbortSignal
-  ): Promise<MarkdownPage[]> {
+  ): Promise<KeyPagesResult> {
     console.log(`🔍 Extracting key pages from: ${websiteUrl}`);
 
     try {
-      // Use the web crawler service to get website data
-      const websiteData = await webCrawlerService.extractWebsiteData(
-        websiteUrl,
-        6,
-        signal
-      );
+      const crawled = await webCrawlerService.crawl(websiteUrl, {
+        maxDepth: 6,
+        signal,
+        markdown: true,
+      });
 
-      const keyPages: MarkdownPage[] = [];
       const priorityPaths = this.getPriorityPaths();
+      const pages = crawled.pages
+        .filter((page) => this.shouldIncludePage(page.path, priorityPaths))
+        .map((page): MarkdownPage => {
+          const title = page.metadata.title || page.path;
+          return {
+            path: page.path,
+            title,
+            content:
+              page.metadata.markdown ||
+              `# ${title}\n\nContent not available.`,
+            metadata: {
+              description: page.metadata.description,
+              keywords: page.metadata.keywords
+                ? page.metadata.keywords.split(",").map((k) => k.trim())
+                : undefined,
+              lastModified: new Date().toISOString(),
+            },
+          };
+        });
 
-      // Convert page metadata to markdown pages
-      for (const metadata of websiteData.pageMetadatas) {
-        const path = metadata.path;
-
-        // Check if this is a priority path or should be included
-        if (this.shouldIncludePage(path, priorityPaths)) {
-          try {
-            const markdownPage: MarkdownPage = {
-              path: metadata.path,
-              title: metadata.title || path,
-              content: "", // Will be filled by crawling individual pages
-              metadata: {
-                description: metadata.description,
-                keywords: metadata.keywords
-                  ? metadata.keywords.split(",").map((k) => k.trim())
-                  : undefined,
-                lastModified: new Date().toISOString(),
-              },
-            };
-            keyPages.push(markdownPage);
-          } catch (error) {
-            console.warn(`⚠️ Failed to extract markdown from ${path}:`, error);
-          }
-        }
-      }
-
-      // For each key page, get the actual content
-      for (const page of keyPages) {
-        // Check for cancellation
-        if (signal?.aborted) {
-          console.log("🛑 Markdown generation cancelled by user");
-          throw new Error("CANCELLED");
-        }
-
-        try {
-          // Rate limiting for cheerio requests
-          await this.enforceRateLimit();
-
-          const fullUrl = new URL(page.path, websiteUrl).href;
-          const content = await this.extractPageContent(fullUrl, signal);
-          page.content = content;
-        } catch (error) {
-          console.warn(
-            `⚠️ Failed to extract content from ${page.path}:`,
-            error
-          );
-          page.content = `# ${page.title}\n\nContent not available.`;
-        }
-      }
-
-      return keyPages;
+      return {
+        pages,
+        websiteData: webCrawlerService.toWebsiteData(crawled),
+        crawled,
+      };
     } catch (error) {
+      if (signal?.aborted) throw new Error("CANCELLED");
       console.error("❌ Failed to extract key pages:", error);
       throw new Error("Failed to crawl website for markdown generation");
     }
@@ -203,115 +298,55 @@ export class MarkdownGeneratorService {
   }
 
   /**
-   * Extract content from a single page
-   */
-  private async extractPageContent(
-    url: string,
-    signal?: AbortSignal
-  ): Promise<string> {
-    try {
-      const response = await fetch(url, {
-        headers: {
-          "User-Agent": "TheLLMsTxt-Crawler/1.0",
-        },
-        signal,
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const html = await response.text();
-      return this.htmlToMarkdown(html);
-    } catch (error) {
-      console.warn(`⚠️ Failed to extract content from ${url}:`, error);
-      return `# Page Content\n\nContent extraction failed.`;
-    }
-  }
-
-  /**
-   * Simple HTML to Markdown conversion
-   */
-  private htmlToMarkdown(html: string): string {
-    let markdown = html
-      // Remove script and style tags
-      .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, "")
-      .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
-
-      // Convert headers
-      .replace(/<h1[^>]*>(.*?)<\/h1>/gi, "# $1\n\n")
-      .replace(/<h2[^>]*>(.*?)<\/h2>/gi, "## $1\n\n")
-      .replace(/<h3[^>]*>(.*?)<\/h3>/gi, "### $1\n\n")
-      .replace(/<h4[^>]*>(.*?)<\/h4>/gi, "#### $1\n\n")
-      .replace(/<h5[^>]*>(.*?)<\/h5>/gi, "##### $1\n\n")
-      .replace(/<h6[^>]*>(.*?)<\/h6>/gi, "###### $1\n\n")
-
-      // Convert paragraphs
-      .replace(/<p[^>]*>(.*?)<\/p>/gi, "$1\n\n")
-
-      // Convert links
-      .replace(/<a[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, "[$2]($1)")
-
-      // Convert bold and italic
-      .replace(/<strong[^>]*>(.*?)<\/strong>/gi, "**$1**")
-      .replace(/<b[^>]*>(.*?)<\/b>/gi, "**$1**")
-      .replace(/<em[^>]*>(.*?)<\/em>/gi, "*$1*")
-      .replace(/<i[^>]*>(.*?)<\/i>/gi, "*$1*")
-
-      // Convert lists
-      .replace(/<ul[^>]*>([\s\S]*?)<\/ul>/gi, (match, content) => {
-        return content.replace(/<li[^>]*>(.*?)<\/li>/gi, "- $1\n") + "\n";
-      })
-      .replace(/<ol[^>]*>([\s\S]*?)<\/ol>/gi, (match, content) => {
-        let counter = 1;
-        return (
-          content.replace(
-            /<li[^>]*>(.*?)<\/li>/gi,
-            () => `${counter++}. $1\n`
-          ) + "\n"
-        );
-      })
-
-      // Remove remaining HTML tags
-      .replace(/<[^>]*>/g, "")
-
-      // Decode HTML entities
-      .replace(/&amp;/g, "&")
-      .replace(/&lt;/g, "<")
-      .replace(/&gt;/g, ">")
-      .replace(/&quot;/g, '"')
-      .replace(/&#39;/g, "'")
-      .replace(/&nbsp;/g, " ");
-
-    return markdown.trim();
-  }
-
-  /**
-   * Generate markdown files for all key pages
+   * Generate markdown files for all key pages. Summaries stop for the
+   * remaining pages once the user is rate limited or over their usage cap.
    */
   private async generateMarkdownFiles(
     pages: MarkdownPage[],
-    websiteUrl: string
-  ): Promise<
-    Array<{
-      path: string;
-      content: string;
-      filename: string;
-    }>
-  > {
-    const files: Array<{
-      path: string;
-      content: string;
-      filename: string;
-    }> = [];
+    websiteUrl: string,
+    options: MarkdownGenerationOptions
+  ): Promise<Pick<MarkdownGenerationResponse, "files" | "aiStopped">> {
+    const files: MarkdownGenerationResponse["files"] = [];
+    const usedFilenames = new Set<string>();
+    let aiStopped: AIEnrichmentStop | undefined;
 
     for (const page of pages) {
+      if (options.signal?.aborted) throw new Error("CANCELLED");
+      let summary: string | undefined;
+      if (!aiStopped) {
+        try {
+          const aiContent = await xaiService.generateAIContent(
+            page.path,
+            page.content,
+            options.signal,
+            undefined,
+            options.ai,
+            options.usage
+          );
+          summary = aiContent.summary;
+        } catch (error) {
+          if (error instanceof AIEnrichmentError) {
+            if (error.reason === "cancelled") throw new Error("CANCELLED");
+            aiStopped = error.stop;
+          }
+          if (aiStopped) {
+            console.warn(`⚠️ Stopping page summaries: ${aiStopped.message}`);
+          } else {
+            console.warn(`⚠️ No summary for ${page.path}:`, error);
+          }
+        }
+      }
+
       try {
-        const markdownContent = await this.generateSingleMarkdownFile(
+        const markdownContent = this.generateSingleMarkdownFile(
           page,
-          websiteUrl
+          websiteUrl,
+          summary
+        );
+        const filename = uniquePath(
+          this.generateFilename(page.path),
+          usedFilenames
         );
-        const filename = this.generateFilename(page.path);
 
         files.push({
           path: page.path,
@@ -323,16 +358,17 @@ export class MarkdownGeneratorService {
       }
     }
 
-    return files;
+    return { files, aiStopped };
   }
 
   /**
    * Generate markdown content for a single page
    */
-  private async generateSingleMarkdownFile(
+  private generateSingleMarkdownFile(
     page: MarkdownPage,
-    websiteUrl: string
-  ): Promise<string> {
+    websiteUrl: string,
+    summary: string | undefined
+  ): string {
     let content = `# ${page.title}\n\n`;
 
     // Add metadata
@@ -351,17 +387,7 @@ export class MarkdownGeneratorService {
       content += `**Keywords:** ${page.metadata.keywords.join(", ")}\n`;
     }
 
-    // Add AI-generated summary if available or generate if missing
-    let summary = (page as any).summary;
-    if (!summary) {
-      try {
-        const aiContent = await xaiService.generateAIContent(
-          page.path,
-          page.content
-        );
-        summary = aiContent.summary;
-      } catch {}
-    }
+    // Add AI-generated summary if available
     if (
       summary &&
       !summary.includes("not available") &&
@@ -403,28 +429,8 @@ export class MarkdownGeneratorService {
    */
   async generateMarkdownSitemap(websiteUrl: string): Promise<string> {
     try {
-      const pages = await this.extractKeyPages(websiteUrl);
-
-      let content = `# Site Map\n\n`;
-      content += `**Website:** ${websiteUrl}\n`;
-      content += `**Generated:** ${new Date().toISOString()}\n`;
-      content += `**Total Pages:** ${pages.length}\n\n`;
-
-      // Group pages by section
-      const sections = this.groupPagesBySection(pages);
-
-      Object.entries(sections).forEach(([section, sectionPages]) => {
-        content += `## ${section}\n\n`;
-        sectionPages.forEach((page) => {
-          content += `- [${page.title}](${page.path})\n`;
-          if (page.metadata?.description) {
-            content += `  - ${page.metadata.description}\n`;
-          }
-        });
-        content += `\n`;
-      });
-
-      return content;
+      const { pages } = await this.extractKeyPages(websiteUrl);
+      return this.renderSitemap(pages, websiteUrl);
     } catch (error) {
       console.error("❌ Markdown sitemap generation failed:", error);
       return `# Site Map\nError generating sitemap: ${
@@ -433,20 +439,27 @@ export class MarkdownGeneratorService {
     }
   }
 
-  /**
-   * Rate limiting enforcement
-   */
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.rateLimiter.lastRequestTime;
-
-    if (timeSinceLastRequest < this.rateLimiter.minInterval) {
-      const delay = this.rateLimiter.minInterval - timeSinceLastRequest;
-      console.log(`⏱️ Rate limiting: waiting ${delay}ms`);
-      await new Promise((resolve) => setTimeout(resolve, delay));
-    }
+  private renderSitemap(pages: MarkdownPage[], websiteUrl: string): string {
+    let content = `# Site Map\n\n`;
+    content += `**Website:** ${websiteUrl}\n`;
+    content += `**Generated:** ${new Date().toISOString()}\n`;
+    content += `**Total Pages:** ${pages.length}\n\n`;
 
-    this.rateLimiter.lastRequestTime = Date.now();
+    // Group pages by section
+    const sections = this.groupPagesBySection(pages);
+
+    Object.entries(sections).forEach(([section, sectionPages]) => {
+      content += `## ${section}\n\n`;
+      sectionPages.forEach((page) => {
+        content += `- [${page.title}](${page.path})\n`;
+        if (page.metadata?.description) {
+          content += `  - ${page.metadata.description}\n`;
+        }
+      });
+      content += `\n`;
+    });
+
+    return content;
   }
 
   /**
@@ -504,4 +517,54 @@ export class MarkdownGeneratorService {
   }
 }
 
+/**
+ * Archive location for a page, following the llms.txt convention of
+ * appending .md to the URL: /docs/setup -> docs/setup.md, / -> index.html.md
+ */
+function archivePath(path: string): string {
+  const [pathname, query] = path.split(/[?#]/, 2);
+  const segments = pathname
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => {
+      let decoded = segment;
+      try {
+        decoded = decodeURIComponent(segment);
+      } catch {}
+      const safe = decoded
+        .replace(/[^\w.-]+/g, "-")
+        .replace(/^\.+/, "")
+        .slice(0, MAX_SEGMENT_LENGTH);
+      return safe || "_";
+    });
+  if (!segments.length) return "index.html.md";
+
+  if (query) {
+    const suffix = query.replace(/[^\w.-]+/g, "-").replace(/^-+|-+$/g, "");
+    const last = segments.length - 1;
+    if (suffix)
+      segments[last] = `${segments[last]}-${suffix}`.slice(
+        0,
+        MAX_SEGMENT_LENGTH
+      );
+  }
+  return `${segments.join("/")}.md`;
+}
+
+/**
+ * Make `path` unique among `used` (case-insensitively, so archives extract
+ * cleanly on macOS and Windows) by numbering duplicates: a.md, a-2.md, ...
+ */
+function uniquePath(path: string, used: Set<string>): string {
+  const dot = path.lastIndexOf(".");
+  const stem = dot > path.lastIndexOf("/") ? path.slice(0, dot) : path;
+  const ext = path.slice(stem.length);
+  let candidate = path;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${stem}-${n}${ext}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
 export const markdownGeneratorService = new MarkdownGeneratorService();
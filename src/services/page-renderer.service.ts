@@ -0,0 +1,150 @@
+import type { Browser, BrowserContext } from "playwright";
+
+export type RenderMode = "static" | "auto" | "browser";
+
+export interface RenderedPage {
+  html: string;
+  finalUrl: string;
+  status: number;
+  retryAfter?: string;
+}
+
+// Static HTML with less visible text than this is treated as a client-rendered shell
+const MIN_STATIC_TEXT_LENGTH = parseInt(
+  process.env.RENDER_MIN_TEXT_LENGTH || "200"
+);
+const RENDER_CONCURRENCY = parseInt(process.env.RENDER_CONCURRENCY || "2");
+const NETWORK_IDLE_TIMEOUT_MS = 15000;
+// Close the browser when no page has been rendered for this long
+const BROWSER_IDLE_MS = 60000;
+const BLOCKED_RESOURCES = new Set(["image", "media", "font"]);
+
+/**
+ * Headless Chromium rendering for JavaScript-heavy sites. The browser is
+ * launched on first use, shared by all crawls and closed again when idle.
+ */
+export class PageRendererService {
+  private browser?: Promise<Browser>;
+  private active = 0;
+  private waiters: Array<() => void> = [];
+  private idleTimer?: NodeJS.Timeout;
+  private unavailable = false;
+
+  get defaultMode(): RenderMode {
+    const mode = process.env.CRAWL_RENDER_MODE;
+    return mode === "auto" || mode === "browser" ? mode : "static";
+  }
+
+  /**
+   * Whether a statically fetched page looks client-rendered and should be
+   * loaded in the browser under "auto" mode
+   */
+  needsRender(bodyText: string, linkCount: number): boolean {
+    return (
+      !this.unavailable &&
+      (bodyText.trim().length < MIN_STATIC_TEXT_LENGTH || linkCount === 0)
+    );
+  }
+
+  /**
+   * Load a page in headless Chromium, wait for network idle and return the
+   * rendered DOM
+   */
+  async render(
+    url: string,
+    options: { userAgent: string; timeout: number; signal?: AbortSignal }
+  ): Promise<RenderedPage> {
+    if (options.signal?.aborted) throw new Error("CANCELLED");
+    if (this.unavailable) throw new Error("Headless browser unavailable");
+    await this.acquireSlot();
+    let context: BrowserContext | undefined;
+    const onAbort = () => void context?.close().catch(() => {});
+    options.signal?.addEventListener("abort", onAbort);
+
+    try {
+      context = await (await this.getBrowser()).newContext({
+        userAgent: options.userAgent,
+        javaScriptEnabled: true,
+      });
+      const page = await context.newPage();
+      await page.route("**/*", (route) =>
+        BLOCKED_RESOURCES.has(route.request().resourceType())
+          ? route.abort()
+          : route.continue()
+      );
+      const response = await page.goto(url, {
+        waitUntil: "domcontentloaded",
+        timeout: options.timeout,
+      });
+      // Long-polling pages never go idle; render what has loaded by then
+      await page
+        .waitForLoadState("networkidle", { timeout: NETWORK_IDLE_TIMEOUT_MS })
+        .catch(() => {});
+
+      return {
+        html: await page.content(),
+        finalUrl: page.url(),
+        status: response?.status() ?? 200,
+        retryAfter: response?.headers()["retry-after"],
+      };
+    } catch (e) {
+      if (options.signal?.aborted) throw new Error("CANCELLED");
+      throw e;
+    } finally {
+      options.signal?.removeEventListener("abort", onAbort);
+      await context?.close().catch(() => {});
+      this.releaseSlot();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    const browser = this.browser;
+    this.browser = undefined;
+    if (browser) await browser.then((b) => b.close()).catch(() => {});
+  }
+
+  private getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      this.browser = import("playwright")
+        .then(({ chromium }) => chromium.launch({ headless: true }))
+        .then((browser) => {
+          console.log("🧭 Headless Chromium started");
+          browser.on("disconnected", () => {
+            this.browser = undefined;
+          });
+          return browser;
+        })
+        .catch((e) => {
+          this.browser = undefined;
+          // Don't keep retrying a missing browser install for every page
+          this.unavailable = true;
+          console.warn(
+            "⚠️ Headless browser unavailable, falling back to static HTML:",
+            e instanceof Error ? e.message : e
+          );
+          throw e;
+        });
+    }
+    return this.browser;
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    while (this.active >= RENDER_CONCURRENCY) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+    this.active++;
+  }
+
+  private releaseSlot(): void {
+    this.active--;
+    this.waiters.shift()?.();
+    if (this.active === 0) {
+      this.idleTimer = setTimeout(() => void this.close(), BROWSER_IDLE_MS);
+      this.idleTimer.unref();
+    }
+  }
+}
+
+export const pageRendererService = new PageRendererService();
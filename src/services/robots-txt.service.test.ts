@@ -0,0 +1,251 @@
+import {
+  RobotsPolicy,
+  matchesRobotsPattern,
+  robotsTxtService,
+} from "./robots-txt.service";
+
+const ROBOTS_TXT = `# Example robots.txt
+User-agent: *
+Disallow: /private
+Allow: /private/public
+Crawl-delay: 2
+
+User-agent: GPTBot
+User-agent: CCBot
+Disallow: /   # no AI crawlers
+Allow: /blog$
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+describe("RobotsTxtService.parse", () => {
+  it("groups consecutive user agents and ignores comments", () => {
+    expect(robotsTxtService.parse(ROBOTS_TXT)).toEqual({
+      groups: [
+        {
+          userAgents: ["*"],
+          rules: [
+            { type: "disallow", path: "/private" },
+            { type: "allow", path: "/private/public" },
+          ],
+          crawlDelay: 2,
+        },
+        {
+          userAgents: ["GPTBot", "CCBot"],
+          rules: [
+            { type: "disallow", path: "/" },
+            { type: "allow", path: "/blog$" },
+          ],
+        },
+      ],
+      sitemaps: ["https://example.com/sitemap.xml"],
+    });
+  });
+
+  it("skips rules that come before any user agent", () => {
+    const parsed = robotsTxtService.parse(
+      "Disallow: /\nSitemap: https://example.com/a.xml\nUser-agent: *\nAllow: /"
+    );
+    expect(parsed.groups).toEqual([
+      { userAgents: ["*"], rules: [{ type: "allow", path: "/" }] },
+    ]);
+    expect(parsed.sitemaps).toEqual(["https://example.com/a.xml"]);
+  });
+});
+
+describe("RobotsTxtService.resolvePolicy", () => {
+  const parsed = robotsTxtService.parse(ROBOTS_TXT);
+
+  it("prefers the group naming the agent's product token", () => {
+    const policy = robotsTxtService.resolvePolicy(parsed, "GPTBot/1.2");
+    expect(policy.isAllowed("/")).toBe(false);
+    expect(policy.isAllowed("/blog")).toBe(true);
+    expect(policy.isAllowed("/blog/post")).toBe(false);
+    expect(policy.crawlDelayMs).toBe(0);
+  });
+
+  it("falls back to the * group", () => {
+    const policy = robotsTxtService.resolvePolicy(parsed, "TheLLMsTxtBot/1.0");
+    expect(policy.isAllowed("/")).toBe(true);
+    expect(policy.isAllowed("https://example.com/private/page")).toBe(false);
+    expect(policy.isAllowed("/private/public/page")).toBe(true);
+    expect(policy.crawlDelayMs).toBe(2000);
+    expect(policy.sitemaps).toEqual(["https://example.com/sitemap.xml"]);
+  });
+
+  it("caps the crawl delay", () => {
+    const policy = robotsTxtService.resolvePolicy(
+      robotsTxtService.parse("User-agent: *\nCrawl-delay: 3600"),
+      "TheLLMsTxtBot"
+    );
+    expect(policy.crawlDelayMs).toBe(60000);
+  });
+});
+
+describe("RobotsPolicy.isAllowed", () => {
+  const policy = (rules: string) =>
+    robotsTxtService.resolvePolicy(
+      robotsTxtService.parse(`User-agent: *\n${rules}`),
+      "TheLLMsTxtBot"
+    );
+
+  it("lets the longest matching rule win", () => {
+    const p = policy("Allow: /docs\nDisallow: /docs/internal\nDisallow: /");
+    expect(p.isAllowed("/docs/guide")).toBe(true);
+    expect(p.isAllowed("/docs/internal/notes")).toBe(false);
+    expect(p.isAllowed("/pricing")).toBe(false);
+  });
+
+  it("lets allow win a tie", () => {
+    expect(policy("Disallow: /page\nAllow: /page").isAllowed("/page")).toBe(
+      true
+    );
+  });
+
+  it("ignores an empty Disallow", () => {
+    expect(policy("Disallow:").isAllowed("/anything")).toBe(true);
+  });
+
+  it("checks the query string too", () => {
+    const p = policy("Disallow: /*?session=");
+    expect(p.isAllowed("https://example.com/cart?session=1")).toBe(false);
+    expect(p.isAllowed("https://example.com/cart")).toBe(true);
+  });
+
+  it("allows or blocks everything for the fallback policies", () => {
+    expect(RobotsPolicy.allowAll().isAllowed("/admin")).toBe(true);
+    expect(RobotsPolicy.disallowAll().isAllowed("/")).toBe(false);
+  });
+});
+
+describe("matchesRobotsPattern", () => {
+  it.each([
+    ["/private", "/private/page", true],
+    ["/private", "/privacy", false],
+    ["/*.pdf$", "/files/report.pdf", true],
+    ["/*.pdf$", "/files/report.pdf?download=1", false],
+    ["/a*b", "/axxb/c", true],
+    ["/file.html", "/fileXhtml", false],
+  ])("%s against %s is %s", (pattern, path, expected) => {
+    expect(matchesRobotsPattern(pattern, path)).toBe(expected);
+  });
+});
+
+describe("RobotsTxtService.generateGroups", () => {
+  it("emits one allow-all group per bot when nothing is disallowed", () => {
+    const groups = robotsTxtService.generateGroups({
+      paths: [{ path: "/docs", allow: true }],
+      bots: ["GPTBot", "CCBot"],
+    });
+    expect(groups).toEqual([
+      { userAgents: ["GPTBot"], rules: [{ type: "allow", path: "/" }] },
+      { userAgents: ["CCBot"], rules: [{ type: "allow", path: "/" }] },
+    ]);
+  });
+
+  it("only allows paths that carve an exception out of a disallow", () => {
+    const [group] = robotsTxtService.generateGroups({
+      paths: [
+        { path: "/docs", allow: false },
+        { path: "/docs/public", allow: true },
+        { path: "/pricing", allow: true },
+      ],
+      bots: ["GPTBot"],
+    });
+    expect(group.rules).toEqual([
+      { type: "disallow", path: "/docs" },
+      { type: "allow", path: "/docs/public" },
+    ]);
+  });
+
+  it("applies per-bot overrides", () => {
+    const groups = robotsTxtService.generateGroups({
+      paths: [{ path: "/blog", allow: true }],
+      bots: ["GPTBot", "CCBot"],
+      botRules: [{ bot: "CCBot", path: "/blog", allow: false }],
+    });
+    expect(groups[0].rules).toEqual([{ type: "allow", path: "/" }]);
+    expect(groups[1].rules).toEqual([{ type: "disallow", path: "/blog" }]);
+  });
+});
+
+describe("RobotsTxtService.generate", () => {
+  const request = {
+    websiteUrl: "https://example.com",
+    paths: [{ path: "/private", allow: false }],
+    bots: ["GPTBot" as const],
+    sitemapUrl: "https://example.com/sitemap.xml",
+  };
+  // The Generated timestamp changes on every call
+  const withoutDate = (content: string) =>
+    content.replace(/^# Generated: .*$/m, "# Generated: <date>");
+
+  it("writes a standalone robots.txt", () => {
+    expect(withoutDate(robotsTxtService.generate(request))).toBe(
+      `# robots.txt generated by TheLLMsTxt (https://thellmstxt.com)
+# Website: https://example.com
+# Generated: <date>
+
+User-agent: GPTBot
+Disallow: /private
+
+Sitemap: https://example.com/sitemap.xml
+`
+    );
+  });
+
+  it("merges into an existing file, replacing only the managed bots", () => {
+    const existing = `# Site rules
+User-agent: *
+Disallow: /admin
+
+User-agent: GPTBot
+Disallow: /
+
+User-agent: Googlebot
+User-agent: CCBot
+Allow: /
+
+Sitemap: https://example.com/sitemap.xml
+`;
+    expect(withoutDate(robotsTxtService.generate(request, existing))).toBe(
+      `# Site rules
+User-agent: *
+Disallow: /admin
+
+User-agent: Googlebot
+User-agent: CCBot
+Allow: /
+
+Sitemap: https://example.com/sitemap.xml
+
+# BEGIN TheLLMsTxt AI crawler rules
+# robots.txt generated by TheLLMsTxt (https://thellmstxt.com)
+# Website: https://example.com
+# Generated: <date>
+
+User-agent: GPTBot
+Disallow: /private
+# END TheLLMsTxt AI crawler rules
+`
+    );
+  });
+
+  it("replaces a previously merged block instead of adding another", () => {
+    const once = robotsTxtService.generate(
+      request,
+      "User-agent: *\nDisallow: /admin\n"
+    );
+    const twice = robotsTxtService.generate(
+      { ...request, paths: [{ path: "/drafts", allow: false }] },
+      once
+    );
+
+    expect(twice.match(/# BEGIN TheLLMsTxt/g)).toHaveLength(1);
+    expect(twice.match(/# END TheLLMsTxt/g)).toHaveLength(1);
+    expect(twice).toContain("Disallow: /drafts");
+    expect(twice).not.toContain("Disallow: /private");
+    expect(twice.match(/^Sitemap: /gm)).toHaveLength(1);
+    expect(twice.startsWith("User-agent: *\nDisallow: /admin\n\n")).toBe(true);
+  });
+});
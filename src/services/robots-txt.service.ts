@@ -0,0 +1,382 @@
+import axios from "axios";
+import { URL } from "url";
+import { LLM_BOT_CONFIGS, RobotsTxtGenerationRequest } from "../types";
+
+export interface RobotsRule {
+  type: "allow" | "disallow";
+  path: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface ParsedRobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+// Upper bound for Crawl-delay so a bogus value can't stall a crawl for hours
+const MAX_CRAWL_DELAY_MS = 60000;
+
+// Markers around the groups we own when merging into an existing robots.txt
+const MANAGED_BLOCK_START = "# BEGIN TheLLMsTxt AI crawler rules";
+const MANAGED_BLOCK_END = "# END TheLLMsTxt AI crawler rules";
+
+/**
+ * Access policy for a single user agent, resolved from a site's robots.txt
+ */
+export class RobotsPolicy {
+  constructor(
+    private rules: RobotsRule[],
+    readonly crawlDelayMs: number,
+    readonly sitemaps: string[],
+    readonly found: boolean
+  ) {}
+
+  static allowAll(sitemaps: string[] = [], found = false): RobotsPolicy {
+    return new RobotsPolicy([], 0, sitemaps, found);
+  }
+
+  static disallowAll(): RobotsPolicy {
+    return new RobotsPolicy([{ type: "disallow", path: "/" }], 0, [], false);
+  }
+
+  /**
+   * Check a URL or path against the rules (RFC 9309: longest match wins,
+   * allow wins ties)
+   */
+  isAllowed(urlOrPath: string): boolean {
+    let target = urlOrPath;
+    try {
+      const u = new URL(urlOrPath);
+      target = u.pathname + u.search;
+    } catch {}
+    if (!target.startsWith("/")) target = `/${target}`;
+
+    let best: RobotsRule | null = null;
+    for (const rule of this.rules) {
+      if (!rule.path || !matchesRobotsPattern(rule.path, target)) continue;
+      if (
+        !best ||
+        rule.path.length > best.path.length ||
+        (rule.path.length === best.path.length && rule.type === "allow")
+      ) {
+        best = rule;
+      }
+    }
+    return !best || best.type === "allow";
+  }
+}
+
+/**
+ * Match a robots.txt path pattern (supports `*` and a trailing `$`)
+ */
+export function matchesRobotsPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}${anchored ? "$" : ""}`).test(path);
+}
+
+export class RobotsTxtService {
+  private timeout = 10000;
+
+  /**
+   * Parse robots.txt content into user-agent groups and sitemap entries
+   */
+  parse(content: string): ParsedRobotsTxt {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, "").trim();
+      if (!line) continue;
+      const idx = line.indexOf(":");
+      if (idx === -1) continue;
+      const field = line.slice(0, idx).trim().toLowerCase();
+      const value = line.slice(idx + 1).trim();
+
+      if (field === "user-agent") {
+        // Consecutive User-agent lines share the same group
+        if (!current || !lastWasAgent) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value);
+        lastWasAgent = true;
+        continue;
+      }
+      lastWasAgent = false;
+
+      if (field === "sitemap") {
+        if (value) sitemaps.push(value);
+      } else if (!current) {
+        continue;
+      } else if (field === "allow" || field === "disallow") {
+        current.rules.push({ type: field, path: value });
+      } else if (field === "crawl-delay") {
+        const delay = parseFloat(value);
+        if (!isNaN(delay) && delay >= 0) current.crawlDelay = delay;
+      }
+    }
+
+    return { groups, sitemaps };
+  }
+
+  /**
+   * Resolve the rules that apply to a user agent. Groups naming the agent's
+   * product token take precedence over the `*` groups.
+   */
+  resolvePolicy(parsed: ParsedRobotsTxt, userAgent: string): RobotsPolicy {
+    const token = userAgent.split("/")[0].trim().toLowerCase();
+    const specific = parsed.groups.filter((g) =>
+      g.userAgents.some((ua) => ua.toLowerCase() === token)
+    );
+    const matching = specific.length
+      ? specific
+      : parsed.groups.filter((g) => g.userAgents.some((ua) => ua === "*"));
+
+    const rules = matching.flatMap((g) => g.rules);
+    const delays = matching
+      .map((g) => g.crawlDelay)
+      .filter((d): d is number => typeof d === "number");
+    const crawlDelayMs = delays.length
+      ? Math.min(Math.max(...delays) * 1000, MAX_CRAWL_DELAY_MS)
+      : 0;
+
+    return new RobotsPolicy(rules, crawlDelayMs, parsed.sitemaps, true);
+  }
+
+  /**
+   * Fetch a site's robots.txt. Returns null when the site has none.
+   */
+  async fetchRobotsTxt(
+    baseUrl: string,
+    userAgent: string,
+    signal?: AbortSignal
+  ): Promise<{ status: number; content: string | null }> {
+    const robotsUrl = new URL("/robots.txt", baseUrl).href;
+    const res = await axios.get(robotsUrl, {
+      timeout: this.timeout,
+      headers: { "User-Agent": userAgent, Accept: "text/plain,*/*;q=0.8" },
+      maxRedirects: 5,
+      responseType: "text",
+      signal,
+      validateStatus: () => true,
+    });
+    return {
+      status: res.status,
+      content:
+        res.status >= 200 && res.status < 300 && typeof res.data === "string"
+          ? res.data
+          : null,
+    };
+  }
+
+  /**
+   * Fetch and resolve the robots.txt policy for a site
+   */
+  async getPolicy(
+    baseUrl: string,
+    userAgent: string,
+    signal?: AbortSignal
+  ): Promise<RobotsPolicy> {
+    try {
+      const { status, content } = await this.fetchRobotsTxt(
+        baseUrl,
+        userAgent,
+        signal
+      );
+      if (status >= 500) {
+        // RFC 9309: an unreachable robots.txt means complete disallow
+        console.warn(
+          `🤖 robots.txt for ${baseUrl} returned ${status}, treating site as disallowed`
+        );
+        return RobotsPolicy.disallowAll();
+      }
+      if (content === null) return RobotsPolicy.allowAll();
+
+      const policy = this.resolvePolicy(this.parse(content), userAgent);
+      console.log(
+        `🤖 robots.txt loaded for ${baseUrl} (crawl delay: ${policy.crawlDelayMs}ms)`
+      );
+      return policy;
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      const errorMsg = e instanceof Error ? e.message : "Unknown error";
+      console.warn(`🤖 Failed to fetch robots.txt for ${baseUrl}: ${errorMsg}`);
+      return RobotsPolicy.allowAll();
+    }
+  }
+
+  /**
+   * Build one User-agent group per selected bot from the path selections.
+   * Allow lines are only emitted where they carve an exception out of a
+   * broader Disallow, so a fully allowed site gets a single `Allow: /`.
+   */
+  generateGroups(request: RobotsTxtGenerationRequest): RobotsGroup[] {
+    return request.bots.map((bot) => {
+      const selections = new Map<string, boolean>();
+      request.paths.forEach((p) => selections.set(p.path, p.allow));
+      request.botRules
+        ?.filter((r) => r.bot === bot)
+        .forEach((r) => selections.set(r.path, r.allow));
+
+      const disallowed = Array.from(selections.entries())
+        .filter(([, allow]) => !allow)
+        .map(([path]) => path);
+
+      const rules: RobotsRule[] = [];
+      for (const [path, allow] of selections.entries()) {
+        if (!allow) {
+          rules.push({ type: "disallow", path });
+        } else if (disallowed.some((d) => path !== d && path.startsWith(d))) {
+          rules.push({ type: "allow", path });
+        }
+      }
+      rules.sort((a, b) => a.path.localeCompare(b.path));
+      if (!rules.length) rules.push({ type: "allow", path: "/" });
+
+      return { userAgents: [LLM_BOT_CONFIGS[bot].userAgent], rules };
+    });
+  }
+
+  /**
+   * Generate a standalone robots.txt, or merge the generated groups into an
+   * existing one when `existing` is provided
+   */
+  generate(request: RobotsTxtGenerationRequest, existing?: string): string {
+    const groups = this.generateGroups(request);
+    const sitemaps = request.sitemapUrl ? [request.sitemapUrl] : [];
+    const header = [
+      "# robots.txt generated by TheLLMsTxt (https://thellmstxt.com)",
+      ...(request.websiteUrl ? [`# Website: ${request.websiteUrl}`] : []),
+      `# Generated: ${new Date().toISOString()}`,
+    ];
+
+    if (existing === undefined) {
+      const sections = [
+        header.join("\n"),
+        ...groups.map((g) => this.serializeGroup(g)),
+      ];
+      if (sitemaps.length)
+        sections.push(sitemaps.map((url) => `Sitemap: ${url}`).join("\n"));
+      return `${sections.join("\n\n")}\n`;
+    }
+    return this.merge(existing, groups, sitemaps, header);
+  }
+
+  /**
+   * Merge generated groups into an existing robots.txt. Lines for the bots we
+   * manage are replaced; every other group, comment and directive is kept
+   * verbatim. A previously merged block is replaced rather than duplicated.
+   */
+  merge(
+    existing: string,
+    groups: RobotsGroup[],
+    sitemaps: string[],
+    header: string[]
+  ): string {
+    const managedAgents = new Set(
+      groups.flatMap((g) => g.userAgents.map((ua) => ua.toLowerCase()))
+    );
+    const lines = this.stripManagedBlock(existing.split(/\r?\n/));
+
+    // Split into a preamble and raw groups (agent lines + following lines)
+    const preamble: string[] = [];
+    const rawGroups: { agents: string[]; body: string[] }[] = [];
+    let current: { agents: string[]; body: string[] } | null = null;
+    for (const line of lines) {
+      const field = this.fieldOf(line);
+      if (field === "user-agent") {
+        const hasDirectives = current?.body.some((l) => this.fieldOf(l));
+        if (!current || hasDirectives) {
+          current = { agents: [], body: [] };
+          rawGroups.push(current);
+        }
+        current.agents.push(line);
+      } else if (current) {
+        current.body.push(line);
+      } else {
+        preamble.push(line);
+      }
+    }
+
+    const kept: string[] = [...preamble];
+    for (const group of rawGroups) {
+      const agents = group.agents.filter(
+        (line) => !managedAgents.has(this.valueOf(line).toLowerCase())
+      );
+      if (agents.length) {
+        kept.push(...agents, ...group.body);
+      } else {
+        // Group only targeted managed bots - keep anything that isn't a rule
+        kept.push(
+          ...group.body.filter((l) => {
+            const field = this.fieldOf(l);
+            return field === "sitemap" || (!field && !l.trim());
+          })
+        );
+      }
+    }
+
+    const existingSitemaps = new Set(
+      kept
+        .filter((l) => this.fieldOf(l) === "sitemap")
+        .map((l) => this.valueOf(l))
+    );
+    const newSitemaps = sitemaps.filter((url) => !existingSitemaps.has(url));
+
+    const base = kept.join("\n").replace(/\n{3,}/g, "\n\n").trimEnd();
+    const block = [
+      MANAGED_BLOCK_START,
+      ...header,
+      "",
+      groups.map((g) => this.serializeGroup(g)).join("\n\n"),
+      ...(newSitemaps.length
+        ? ["", ...newSitemaps.map((url) => `Sitemap: ${url}`)]
+        : []),
+      MANAGED_BLOCK_END,
+    ].join("\n");
+
+    return `${base ? `${base}\n\n` : ""}${block}\n`;
+  }
+
+  private serializeGroup(group: RobotsGroup): string {
+    const lines = group.userAgents.map((ua) => `User-agent: ${ua}`);
+    group.rules.forEach((r) =>
+      lines.push(`${r.type === "allow" ? "Allow" : "Disallow"}: ${r.path}`)
+    );
+    if (group.crawlDelay !== undefined)
+      lines.push(`Crawl-delay: ${group.crawlDelay}`);
+    return lines.join("\n");
+  }
+
+  private stripManagedBlock(lines: string[]): string[] {
+    const start = lines.findIndex((l) => l.trim() === MANAGED_BLOCK_START);
+    const end = lines.findIndex((l) => l.trim() === MANAGED_BLOCK_END);
+    if (start === -1 || end < start) return lines;
+    return [...lines.slice(0, start), ...lines.slice(end + 1)];
+  }
+
+  private fieldOf(line: string): string | null {
+    const clean = line.replace(/#.*$/, "").trim();
+    const idx = clean.indexOf(":");
+    return idx === -1 ? null : clean.slice(0, idx).trim().toLowerCase();
+  }
+
+  private valueOf(line: string): string {
+    const clean = line.replace(/#.*$/, "").trim();
+    return clean.slice(clean.indexOf(":") + 1).trim();
+  }
+}
+
+export const robotsTxtService = new RobotsTxtService();
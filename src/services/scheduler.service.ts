@@ -0,0 +1,232 @@
+import mongoose from "mongoose";
+import { CronExpressionParser } from "cron-parser";
+import { Schedule, ScheduleModel } from "../models";
+import {
+  JobResponse,
+  LLMBotSchema,
+  ScheduleRequest,
+  ScheduleResponse,
+} from "../types";
+import { jobQueueService } from "./job-queue.service";
+
+const POLL_INTERVAL_MS = parseInt(
+  process.env.SCHEDULER_POLL_INTERVAL_MS || "60000"
+);
+const DEFAULT_CRON = process.env.CRON_SCHEDULE || "0 2 * * *";
+
+/**
+ * Per-site regeneration schedules. Due schedules are claimed with a
+ * compare-and-set on `nextRunAt`, so with several instances each run is
+ * queued once; the job queue then crawls, enriches and generates llms.txt
+ * and keeps the result.
+ */
+export class SchedulerService {
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  get enabled(): boolean {
+    return process.env.AUTOMATION_ENABLED === "true";
+  }
+
+  /**
+   * Start polling for due schedules. Safe to call more than once.
+   */
+  start(): void {
+    if (this.timer) return;
+    console.log(`⏰ Scheduler started (default schedule: ${DEFAULT_CRON})`);
+    this.timer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+    void this.poll();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Error message for an invalid cron expression or timezone
+   */
+  validateCron(cron: string, timezone = "UTC"): string | undefined {
+    try {
+      this.nextRunAt(cron, timezone);
+      return undefined;
+    } catch (error) {
+      return `Invalid schedule "${cron}" (${timezone}): ${
+        error instanceof Error ? error.message : error
+      }`;
+    }
+  }
+
+  async create(
+    user: string,
+    request: ScheduleRequest
+  ): Promise<ScheduleResponse> {
+    const { cron = DEFAULT_CRON, timezone = "UTC", enabled = true } = request;
+    const schedule = await ScheduleModel.create({
+      url: request.url,
+      user,
+      cron,
+      timezone,
+      enabled,
+      payload: buildPayload(request),
+      nextRunAt: enabled ? this.nextRunAt(cron, timezone) : undefined,
+    });
+    console.log(`📅 Created schedule ${schedule._id} for ${request.url}`);
+    return toResponse(schedule);
+  }
+
+  async list(user: string): Promise<ScheduleResponse[]> {
+    const schedules = await ScheduleModel.find({ user }).sort({
+      createdAt: -1,
+    });
+    return schedules.map(toResponse);
+  }
+
+  async get(user: string, id: string): Promise<ScheduleResponse | null> {
+    const schedule = await this.find(user, id);
+    return schedule ? toResponse(schedule) : null;
+  }
+
+  async update(
+    user: string,
+    id: string,
+    changes: Partial<ScheduleRequest>
+  ): Promise<ScheduleResponse | null> {
+    const schedule = await this.find(user, id);
+    if (!schedule) return null;
+
+    const { cron, timezone, enabled, ...payloadChanges } = changes;
+    if (changes.url) schedule.url = changes.url;
+    if (cron) schedule.cron = cron;
+    if (timezone) schedule.timezone = timezone;
+    if (enabled !== undefined) schedule.enabled = enabled;
+    schedule.payload = buildPayload({
+      ...schedule.payload,
+      ...payloadChanges,
+    });
+    schedule.nextRunAt = schedule.enabled
+      ? this.nextRunAt(schedule.cron, schedule.timezone)
+      : undefined;
+    schedule.updatedAt = new Date();
+    await schedule.save();
+    return toResponse(schedule);
+  }
+
+  async remove(user: string, id: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(id)) return false;
+    const deleted = await ScheduleModel.deleteOne({ _id: id, user });
+    return deleted.deletedCount > 0;
+  }
+
+  /**
+   * Queue a run right away; the regular schedule is unaffected
+   */
+  async runNow(user: string, id: string): Promise<JobResponse | null> {
+    const schedule = await this.find(user, id);
+    return schedule ? this.queueRun(schedule) : null;
+  }
+
+  /**
+   * Stored runs of a schedule, newest first
+   */
+  async runs(user: string, id: string): Promise<JobResponse[] | null> {
+    const schedule = await this.find(user, id);
+    return schedule
+      ? jobQueueService.listBySchedule(String(schedule._id))
+      : null;
+  }
+
+  private nextRunAt(cron: string, timezone: string, from = new Date()): Date {
+    return CronExpressionParser.parse(cron, {
+      currentDate: from,
+      tz: timezone,
+    })
+      .next()
+      .toDate();
+  }
+
+  private async find(user: string, id: string) {
+    if (!mongoose.isValidObjectId(id)) return null;
+    return ScheduleModel.findOne({ _id: id, user });
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const now = new Date();
+      const due = await ScheduleModel.find({
+        enabled: true,
+        nextRunAt: { $lte: now },
+      });
+      for (const schedule of due) {
+        let nextRunAt: Date | undefined;
+        try {
+          nextRunAt = this.nextRunAt(schedule.cron, schedule.timezone, now);
+        } catch (error) {
+          console.error(`❌ Schedule ${schedule._id} has a bad cron:`, error);
+        }
+        // Only the instance that moves nextRunAt forward queues the run
+        const claimed = await ScheduleModel.updateOne(
+          { _id: schedule._id, nextRunAt: schedule.nextRunAt },
+          nextRunAt
+            ? { $set: { nextRunAt } }
+            : { $set: { enabled: false }, $unset: { nextRunAt: 1 } }
+        );
+        if (claimed.modifiedCount && nextRunAt) await this.queueRun(schedule);
+      }
+    } catch (err) {
+      console.error("❌ Scheduler poll failed:", err);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async queueRun(
+    schedule: mongoose.HydratedDocument<Schedule>
+  ): Promise<JobResponse> {
+    const job = await jobQueueService.enqueue(
+      { type: "analyze-website", payload: schedule.payload },
+      {
+        user: schedule.user,
+        email: schedule.user,
+        scheduleId: String(schedule._id),
+      }
+    );
+    await ScheduleModel.updateOne(
+      { _id: schedule._id },
+      { $set: { lastRunAt: new Date(), lastJobId: job.id } }
+    );
+    console.log(`🔁 Queued scheduled run ${job.id} for ${schedule.url}`);
+    return job;
+  }
+}
+
+// analyze-website job payload for a schedule; runs reuse the previous crawl
+function buildPayload(request: Partial<ScheduleRequest>) {
+  const { cron, timezone, enabled, ...options } = request;
+  return {
+    ...options,
+    bots: options.bots || [...LLMBotSchema.options],
+    incremental: true,
+  } as ScheduleResponse["payload"];
+}
+
+function toResponse(
+  schedule: mongoose.HydratedDocument<Schedule>
+): ScheduleResponse {
+  return {
+    id: String(schedule._id),
+    url: schedule.url,
+    cron: schedule.cron,
+    timezone: schedule.timezone,
+    enabled: schedule.enabled,
+    payload: schedule.payload,
+    nextRunAt: schedule.nextRunAt?.toISOString(),
+    lastRunAt: schedule.lastRunAt?.toISOString(),
+    lastJobId: schedule.lastJobId ?? undefined,
+    createdAt: schedule.createdAt?.toISOString(),
+  };
+}
+
+export const schedulerService = new SchedulerService();
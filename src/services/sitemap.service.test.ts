@@ -0,0 +1,178 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { gzipSync } from "zlib";
+import { SitemapService, sitemapPriorityToLevel } from "./sitemap.service";
+
+const USER_AGENT = "TestBot";
+
+function urlset(urls: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.map((url) => `  <url><loc>${url}</loc></url>`).join("\n")}
+</urlset>`;
+}
+
+describe("SitemapService.parse", () => {
+  const service = new SitemapService();
+
+  it("reads url entries with their optional fields", () => {
+    const { urls, sitemaps } = service.parse(`<?xml version="1.0"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url>
+    <loc> https://example.com/docs </loc>
+    <lastmod>2026-01-02</lastmod>
+    <priority>1.5</priority>
+    <changefreq>WEEKLY</changefreq>
+  </url>
+  <url><loc>https://example.com/blog</loc><priority>abc</priority></url>
+  <url><lastmod>2026-01-02</lastmod></url>
+</urlset>`);
+
+    expect(sitemaps).toEqual([]);
+    expect(urls).toEqual([
+      {
+        url: "https://example.com/docs",
+        lastmod: "2026-01-02",
+        priority: 1,
+        changefreq: "weekly",
+      },
+      { url: "https://example.com/blog" },
+    ]);
+  });
+
+  it("reads the child sitemaps of an index", () => {
+    const { urls, sitemaps } = service.parse(`<?xml version="1.0"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://example.com/pages.xml</loc></sitemap>
+  <sitemap><loc>https://example.com/posts.xml.gz</loc></sitemap>
+</sitemapindex>`);
+
+    expect(urls).toEqual([]);
+    expect(sitemaps).toEqual([
+      "https://example.com/pages.xml",
+      "https://example.com/posts.xml.gz",
+    ]);
+  });
+});
+
+describe("SitemapService.discover", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let files: Record<string, string | Buffer>;
+  let requested: string[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requested.push(req.url!);
+      const body = files[req.url!];
+      if (body === undefined) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/xml" });
+      res.end(body);
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requested = [];
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("follows a sitemap index into plain and gzipped sitemaps", async () => {
+    files = {
+      "/sitemap.xml": `<?xml version="1.0"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>${baseUrl}/pages.xml</loc></sitemap>
+  <sitemap><loc>${baseUrl}/posts.xml.gz</loc></sitemap>
+  <sitemap><loc>${baseUrl}/sitemap.xml</loc></sitemap>
+</sitemapindex>`,
+      "/pages.xml": urlset([`${baseUrl}/`, `${baseUrl}/about`]),
+      "/posts.xml.gz": gzipSync(
+        urlset([`${baseUrl}/blog/one`, `${baseUrl}/about`])
+      ),
+    };
+
+    const entries = await new SitemapService().discover(
+      `${baseUrl}/`,
+      [],
+      USER_AGENT
+    );
+
+    expect(entries.map((e) => e.url)).toEqual([
+      `${baseUrl}/`,
+      `${baseUrl}/about`,
+      `${baseUrl}/blog/one`,
+    ]);
+    // The index listing itself isn't fetched twice
+    expect(requested).toEqual(["/sitemap.xml", "/pages.xml", "/posts.xml.gz"]);
+  });
+
+  it("fetches the sitemaps from robots.txt before /sitemap.xml", async () => {
+    files = {
+      "/from-robots.xml": urlset([`${baseUrl}/docs`]),
+      "/sitemap.xml": urlset([`${baseUrl}/`]),
+    };
+
+    const entries = await new SitemapService().discover(
+      `${baseUrl}/`,
+      [`${baseUrl}/from-robots.xml`, `${baseUrl}/sitemap.xml`],
+      USER_AGENT
+    );
+
+    expect(entries.map((e) => e.url)).toEqual([
+      `${baseUrl}/docs`,
+      `${baseUrl}/`,
+    ]);
+    expect(requested).toEqual(["/from-robots.xml", "/sitemap.xml"]);
+  });
+
+  it("skips sitemaps that are too large, before or after gunzip", async () => {
+    const big = urlset(
+      Array.from({ length: 100 }, (_, i) => `${baseUrl}/page-${i}`)
+    );
+    files = {
+      "/sitemap.xml": `<?xml version="1.0"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>${baseUrl}/big.xml</loc></sitemap>
+  <sitemap><loc>${baseUrl}/big.xml.gz</loc></sitemap>
+  <sitemap><loc>${baseUrl}/small.xml</loc></sitemap>
+</sitemapindex>`,
+      "/big.xml": big,
+      "/big.xml.gz": gzipSync(big),
+      "/small.xml": urlset([`${baseUrl}/`]),
+    };
+    const service = new SitemapService();
+    service["maxBytes"] = 1024;
+
+    const entries = await service.discover(`${baseUrl}/`, [], USER_AGENT);
+
+    expect(entries.map((e) => e.url)).toEqual([`${baseUrl}/`]);
+    expect(console.warn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("sitemapPriorityToLevel", () => {
+  it.each([
+    [1, "high"],
+    [0.8, "high"],
+    [0.5, "medium"],
+    [0.49, "low"],
+  ] as const)("maps %d to %s", (priority, level) => {
+    expect(sitemapPriorityToLevel(priority)).toBe(level);
+  });
+});
@@ -0,0 +1,156 @@
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { URL } from "url";
+import { gunzipSync } from "zlib";
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: string;
+  priority?: number;
+  changefreq?: string;
+}
+
+export class SitemapService {
+  private timeout = 10000;
+  private maxSitemaps = 50; // Cap on sitemap files fetched per site (indexes included)
+  private maxEntries = 50000;
+  private maxIndexDepth = 3;
+  private maxBytes = 50 * 1024 * 1024; // sitemaps.org limit, before and after gunzip
+
+  /**
+   * Discover page URLs from the sitemaps declared in robots.txt, falling back
+   * to /sitemap.xml. Nested sitemap indexes and gzipped sitemaps are followed.
+   */
+  async discover(
+    baseUrl: string,
+    robotsSitemaps: string[],
+    userAgent: string,
+    signal?: AbortSignal
+  ): Promise<SitemapEntry[]> {
+    const candidates = [
+      ...robotsSitemaps,
+      new URL("/sitemap.xml", baseUrl).href,
+    ].filter((url, i, all) => all.indexOf(url) === i);
+
+    const visited = new Set<string>();
+    const entries = new Map<string, SitemapEntry>();
+
+    for (const sitemapUrl of candidates) {
+      await this.collect(sitemapUrl, 0, visited, entries, userAgent, signal);
+    }
+
+    if (entries.size) {
+      console.log(
+        `🗺️ Discovered ${entries.size} URLs from ${visited.size} sitemap(s) for ${baseUrl}`
+      );
+    }
+    return Array.from(entries.values());
+  }
+
+  private async collect(
+    sitemapUrl: string,
+    depth: number,
+    visited: Set<string>,
+    entries: Map<string, SitemapEntry>,
+    userAgent: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (
+      visited.has(sitemapUrl) ||
+      visited.size >= this.maxSitemaps ||
+      entries.size >= this.maxEntries ||
+      depth > this.maxIndexDepth
+    )
+      return;
+    visited.add(sitemapUrl);
+
+    const xml = await this.fetchSitemap(sitemapUrl, userAgent, signal);
+    if (!xml) return;
+
+    const parsed = this.parse(xml);
+    for (const entry of parsed.urls) {
+      if (entries.size >= this.maxEntries) break;
+      if (!entries.has(entry.url)) entries.set(entry.url, entry);
+    }
+    for (const child of parsed.sitemaps) {
+      await this.collect(child, depth + 1, visited, entries, userAgent, signal);
+    }
+  }
+
+  /**
+   * Parse a sitemap or sitemap index document
+   */
+  parse(xml: string): { urls: SitemapEntry[]; sitemaps: string[] } {
+    const $ = cheerio.load(xml, { xml: true });
+    const sitemaps: string[] = [];
+    const urls: SitemapEntry[] = [];
+
+    $("sitemapindex > sitemap > loc").each((_, el) => {
+      const loc = $(el).text().trim();
+      if (loc) sitemaps.push(loc);
+    });
+
+    $("urlset > url").each((_, el) => {
+      const node = $(el);
+      const loc = node.children("loc").first().text().trim();
+      if (!loc) return;
+      const entry: SitemapEntry = { url: loc };
+      const lastmod = node.children("lastmod").first().text().trim();
+      const priority = parseFloat(node.children("priority").first().text());
+      const changefreq = node.children("changefreq").first().text().trim();
+      if (lastmod) entry.lastmod = lastmod;
+      if (!isNaN(priority)) entry.priority = Math.min(Math.max(priority, 0), 1);
+      if (changefreq) entry.changefreq = changefreq.toLowerCase();
+      urls.push(entry);
+    });
+
+    return { urls, sitemaps };
+  }
+
+  private async fetchSitemap(
+    sitemapUrl: string,
+    userAgent: string,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    try {
+      const res = await axios.get<ArrayBuffer>(sitemapUrl, {
+        timeout: this.timeout,
+        headers: {
+          "User-Agent": userAgent,
+          Accept: "application/xml,text/xml,application/x-gzip,*/*;q=0.8",
+        },
+        maxRedirects: 5,
+        maxContentLength: this.maxBytes,
+        responseType: "arraybuffer",
+        signal,
+        validateStatus: () => true,
+      });
+      if (res.status < 200 || res.status >= 300) return null;
+
+      let body = Buffer.from(res.data);
+      // Gzip magic bytes - covers .xml.gz files served without Content-Encoding
+      if (body[0] === 0x1f && body[1] === 0x8b) {
+        body = gunzipSync(body, { maxOutputLength: this.maxBytes });
+      }
+      return body.toString("utf8");
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      const errorMsg = e instanceof Error ? e.message : "Unknown error";
+      console.warn(`🗺️ Failed to fetch sitemap ${sitemapUrl}: ${errorMsg}`);
+      return null;
+    }
+  }
+}
+
+/**
+ * Map a sitemap <priority> (0.0 - 1.0) onto PathSelection priority buckets
+ */
+export function sitemapPriorityToLevel(
+  priority: number
+): "high" | "medium" | "low" {
+  if (priority >= 0.8) return "high";
+  if (priority >= 0.5) return "medium";
+  return "low";
+}
+
+export const sitemapService = new SitemapService();
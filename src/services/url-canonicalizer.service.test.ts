@@ -0,0 +1,94 @@
+import {
+  UrlCanonicalizer,
+  hashContent,
+  stripWww,
+} from "./url-canonicalizer.service";
+
+describe("UrlCanonicalizer.clean", () => {
+  const canon = new UrlCanonicalizer("www.Example.com", ["preview"]);
+
+  it("drops the fragment, tracking parameters and session ids", () => {
+    expect(
+      canon.clean(
+        "https://example.com/docs;jsessionid=ABC123?utm_source=x&UTM_Medium=y&page=2&fbclid=z&preview=1#intro"
+      )
+    ).toBe("https://example.com/docs?page=2");
+  });
+
+  it("resolves relative links against the base", () => {
+    expect(
+      canon.clean("../pricing?ref=nav", "https://www.example.com/a/b")
+    ).toBe("https://www.example.com/pricing");
+  });
+
+  it("rejects other sites, other schemes and invalid URLs", () => {
+    expect(canon.clean("https://other.com/docs")).toBeNull();
+    expect(canon.clean("https://docs.example.com/")).toBeNull();
+    expect(canon.clean("mailto:hi@example.com")).toBeNull();
+    expect(canon.clean("http://")).toBeNull();
+  });
+
+  it("strips parameters configured in the environment", () => {
+    process.env.CRAWL_STRIP_QUERY_PARAMS = "variant, lang_*";
+    try {
+      const configured = new UrlCanonicalizer("example.com");
+      expect(
+        configured.clean("https://example.com/?variant=b&lang_hint=en&q=1")
+      ).toBe("https://example.com/?q=1");
+    } finally {
+      delete process.env.CRAWL_STRIP_QUERY_PARAMS;
+    }
+  });
+});
+
+describe("UrlCanonicalizer.key", () => {
+  const canon = new UrlCanonicalizer("example.com");
+
+  it("folds equivalent URLs into one key", () => {
+    const keys = [
+      "https://example.com/docs",
+      "http://www.example.com/docs/",
+      "https://EXAMPLE.com:8443/docs/index.html",
+      "https://example.com/docs/default.aspx",
+    ].map((url) => canon.key(url));
+    expect(new Set(keys)).toEqual(new Set(["https://example.com/docs"]));
+  });
+
+  it("sorts query parameters but keeps their values", () => {
+    expect(canon.key("https://example.com/search?b=2&a=1")).toBe(
+      canon.key("https://example.com/search?a=1&b=2")
+    );
+    expect(canon.key("https://example.com/search?a=1")).not.toBe(
+      canon.key("https://example.com/search?a=2")
+    );
+  });
+
+  it("keeps the root path", () => {
+    expect(canon.key("https://www.example.com/index.php")).toBe(
+      "https://example.com/"
+    );
+  });
+});
+
+describe("hashContent", () => {
+  const text = "Static fixture content. ".repeat(20);
+
+  it("ignores case and whitespace", () => {
+    expect(hashContent(text)).toBe(
+      hashContent(`  ${text.toUpperCase().replace(/ /g, "\n\t")}  `)
+    );
+  });
+
+  it("skips thin pages", () => {
+    expect(hashContent("Short page")).toBeUndefined();
+    expect(hashContent()).toBeUndefined();
+  });
+});
+
+describe("stripWww", () => {
+  it("removes only a leading www.", () => {
+    expect(stripWww("www.example.com")).toBe("example.com");
+    expect(stripWww("wwww.example.com")).toBe("wwww.example.com");
+    expect(stripWww("example.www.com")).toBe("example.www.com");
+  });
+});
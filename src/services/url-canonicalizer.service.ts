@@ -0,0 +1,121 @@
+import crypto from "crypto";
+import { URL } from "url";
+
+// Query parameters that never change page content. `*` matches any suffix.
+export const DEFAULT_STRIPPED_QUERY_PARAMS = [
+  "utm_*",
+  "ref",
+  "ref_src",
+  "fbclid",
+  "gclid",
+  "dclid",
+  "msclkid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+  "_hsenc",
+  "_hsmi",
+  "sessionid",
+  "session_id",
+  "sid",
+  "phpsessid",
+  "jsessionid",
+  "aspsessionid*",
+  "cfid",
+  "cftoken",
+];
+
+const INDEX_FILE = /\/(index|default)\.(html?|php|aspx?)$/i;
+// Pages with less text than this are too thin to compare by content
+const MIN_HASHABLE_LENGTH = 200;
+
+/**
+ * Canonical URLs for one crawl. `clean` gives the URL to fetch (fragment,
+ * tracking parameters and `;jsessionid=` removed); `key` further folds
+ * www/bare host, trailing slashes, index files and parameter order so
+ * equivalent URLs share one key.
+ */
+export class UrlCanonicalizer {
+  private siteHost: string;
+  private strippedParams: RegExp[];
+
+  constructor(siteHost: string, extraStrippedParams: string[] = []) {
+    this.siteHost = stripWww(siteHost.toLowerCase());
+    const configured = (process.env.CRAWL_STRIP_QUERY_PARAMS || "")
+      .split(",")
+      .map((p) => p.trim())
+      .filter(Boolean);
+    this.strippedParams = [
+      ...DEFAULT_STRIPPED_QUERY_PARAMS,
+      ...configured,
+      ...extraStrippedParams,
+    ].map(
+      (p) =>
+        new RegExp(
+          `^${p
+            .toLowerCase()
+            .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+            .replace(/\*/g, ".*")}$`
+        )
+    );
+  }
+
+  isSameSite(url: string): boolean {
+    try {
+      return stripWww(new URL(url).hostname.toLowerCase()) === this.siteHost;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * The URL to fetch, or null when it is off-site or not http(s)
+   */
+  clean(url: string, base?: string): string | null {
+    let u: URL;
+    try {
+      u = new URL(url, base);
+    } catch {
+      return null;
+    }
+    if (u.protocol !== "http:" && u.protocol !== "https:") return null;
+    if (!this.isSameSite(u.href)) return null;
+
+    u.hash = "";
+    u.pathname = u.pathname.replace(/;jsessionid=[^/]*/i, "");
+    for (const name of Array.from(u.searchParams.keys())) {
+      if (this.strippedParams.some((re) => re.test(name.toLowerCase())))
+        u.searchParams.delete(name);
+    }
+    return u.href;
+  }
+
+  /**
+   * Dedupe key: equal keys mean the same page
+   */
+  key(cleanUrl: string): string {
+    const u = new URL(cleanUrl);
+    u.hostname = stripWww(u.hostname.toLowerCase());
+    u.protocol = "https:";
+    u.port = "";
+    u.pathname = u.pathname.replace(INDEX_FILE, "/");
+    if (u.pathname.length > 1) u.pathname = u.pathname.replace(/\/+$/, "");
+    u.searchParams.sort();
+    return u.href;
+  }
+}
+
+/**
+ * Hash of normalized page text, or undefined when the page is too thin to
+ * tell apart from other pages by content alone
+ */
+export function hashContent(text?: string): string | undefined {
+  const normalized = (text || "").toLowerCase().replace(/\s+/g, " ").trim();
+  if (normalized.length < MIN_HASHABLE_LENGTH) return undefined;
+  return crypto.createHash("sha1").update(normalized).digest("hex");
+}
+
+export function stripWww(host: string): string {
+  return host.replace(/^www\./, "");
+}
@@ -0,0 +1,185 @@
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import { chromium } from "playwright";
+import { webCrawlerService } from "./web-crawler.service";
+import { pageRendererService } from "./page-renderer.service";
+
+const ARTICLE = `<!doctype html>
+<html>
+  <head>
+    <title>Fixture Article</title>
+    <meta name="description" content="A static page with real content">
+  </head>
+  <body>
+    <main>
+      <h1>Fixture Article</h1>
+      <p>${"This paragraph is served as static HTML, so the crawler can read it without running any scripts. ".repeat(4)}</p>
+      <a href="/about">About</a>
+      <a href="/docs/start">Docs</a>
+    </main>
+  </body>
+</html>`;
+
+// Client-rendered shell: nothing to read until the script runs
+const SPA = `<!doctype html>
+<html>
+  <head><title>Fixture App</title></head>
+  <body>
+    <div id="root"></div>
+    <script>
+      document.getElementById("root").innerHTML =
+        "<main><h1>Rendered App</h1><p>${"Content that only exists after client-side rendering. ".repeat(5)}</p>" +
+        '<a href="/pricing">Pricing</a><a href="/blog">Blog</a></main>';
+    </script>
+  </body>
+</html>`;
+
+const RENDERED_SPA = `<!doctype html>
+<html>
+  <head><title>Fixture App</title></head>
+  <body>
+    <div id="root">
+      <main>
+        <h1>Rendered App</h1>
+        <p>${"Content that only exists after client-side rendering. ".repeat(5)}</p>
+        <a href="/pricing">Pricing</a><a href="/blog">Blog</a>
+      </main>
+    </div>
+  </body>
+</html>`;
+
+const hasBrowser = (() => {
+  try {
+    return fs.existsSync(chromium.executablePath());
+  } catch {
+    return false;
+  }
+})();
+
+describe("WebCrawlerService.crawlPage render modes", () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const body =
+        req.url === "/article" ? ARTICLE : req.url === "/app" ? SPA : null;
+      res.writeHead(body ? 200 : 404, { "Content-Type": "text/html" });
+      res.end(body ?? "<h1>Not found</h1>");
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await pageRendererService.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("reads static pages with cheerio", async () => {
+    const page = await webCrawlerService.crawlPage(
+      `${baseUrl}/article`,
+      "127.0.0.1"
+    );
+
+    expect(page.success).toBe(true);
+    expect(page.rendered).toBe(false);
+    expect(page.metadata.title).toBe("Fixture Article");
+    expect(page.metadata.bodyContent).toContain("served as static HTML");
+    expect(page.metadata.links).toEqual(
+      expect.arrayContaining([`${baseUrl}/about`, `${baseUrl}/docs/start`])
+    );
+  });
+
+  it("treats error responses as failed fetches", async () => {
+    const page = await webCrawlerService.crawlPage(
+      `${baseUrl}/deleted`,
+      "127.0.0.1"
+    );
+
+    expect(page.success).toBe(false);
+    expect(page.error).toBe("HTTP 404");
+  });
+
+  it("skips the browser in auto mode when static HTML has enough content", async () => {
+    const render = jest.spyOn(pageRendererService, "render");
+
+    const page = await webCrawlerService.crawlPage(
+      `${baseUrl}/article`,
+      "127.0.0.1",
+      undefined,
+      undefined,
+      "auto"
+    );
+
+    expect(render).not.toHaveBeenCalled();
+    expect(page.rendered).toBe(false);
+  });
+
+  it("renders client-side shells in auto mode", async () => {
+    const render = jest
+      .spyOn(pageRendererService, "render")
+      .mockResolvedValue({
+        html: RENDERED_SPA,
+        finalUrl: `${baseUrl}/app`,
+        status: 200,
+      });
+
+    const page = await webCrawlerService.crawlPage(
+      `${baseUrl}/app`,
+      "127.0.0.1",
+      undefined,
+      undefined,
+      "auto"
+    );
+
+    expect(render).toHaveBeenCalledWith(`${baseUrl}/app`, expect.anything());
+    expect(page.rendered).toBe(true);
+    expect(page.metadata.bodyContent).toContain("client-side rendering");
+    expect(page.metadata.links).toEqual(
+      expect.arrayContaining([`${baseUrl}/pricing`, `${baseUrl}/blog`])
+    );
+  });
+
+  it("falls back to the static page when the browser fails", async () => {
+    jest
+      .spyOn(pageRendererService, "render")
+      .mockRejectedValue(new Error("Headless browser unavailable"));
+
+    const page = await webCrawlerService.crawlPage(
+      `${baseUrl}/app`,
+      "127.0.0.1",
+      undefined,
+      undefined,
+      "browser"
+    );
+
+    expect(page.success).toBe(true);
+    expect(page.rendered).toBe(false);
+    expect(page.metadata.title).toBe("Fixture App");
+    expect(page.metadata.links).toEqual([]);
+  });
+
+  (hasBrowser ? it : it.skip)(
+    "runs page scripts in headless Chromium",
+    async () => {
+      const page = await webCrawlerService.crawlPage(
+        `${baseUrl}/app`,
+        "127.0.0.1",
+        undefined,
+        undefined,
+        "browser"
+      );
+
+      expect(page.rendered).toBe(true);
+      expect(page.metadata.bodyContent).toContain("client-side rendering");
+      expect(page.metadata.links).toContain(`${baseUrl}/pricing`);
+    },
+    30000
+  );
+});
@@ -1,10 +1,32 @@
 import axios from "axios";
 import * as cheerio from "cheerio";
 import { URL } from "url";
-import { PathSelection } from "../types";
+import {
+  AIGeneratedContent,
+  CrawlChanges,
+  CrawlSummary,
+  HeadingOutlineItem,
+  PageSnapshot,
+  PathAlias,
+  PathSelection,
+} from "../types";
 import mongoose from "mongoose";
-
-interface WebsiteData {
+import { sitemapPriorityToLevel } from "./sitemap.service";
+import { HostThrottle } from "./host-throttle.service";
+import {
+  CrawlEngine,
+  CrawlOptions,
+  CrawlOutcome,
+  PageProcessor,
+  PreviousPage,
+  getPathFromUrl,
+} from "./crawl-engine.service";
+import { stripWww } from "./url-canonicalizer.service";
+import { pageRendererService, RenderMode } from "./page-renderer.service";
+import { contentExtractorService } from "./content-extractor.service";
+import { htmlToMarkdown } from "./html-to-markdown.service";
+
+export interface WebsiteData {
   title: string;
   description: string;
   favicon?: string;
@@ -18,20 +40,45 @@ interface WebsiteData {
     description: string;
     keywords?: string;
     bodyContent?: string;
+    headings?: HeadingOutlineItem[];
   }[];
+  robotsSkippedPaths: string[]; // Paths skipped because robots.txt disallows them
+  sitemapEntries: SitemapPathEntry[];
+  aliases: PathAlias[];
+  crawlSummary: CrawlSummary;
+  pageSnapshots: PageSnapshot[]; // Validators and fingerprints for the next crawl
+  changes?: CrawlChanges;
+  aiGeneratedContent?: AIGeneratedContent[]; // Set by AI enrichment
+}
+
+export interface SitemapPathEntry {
+  path: string;
+  lastmod?: string;
+  priority?: number;
+  changefreq?: string;
 }
 
-interface PageMetadata {
+export interface PageMetadata {
   title: string;
   description: string;
   keywords?: string;
   links: string[];
   bodyContent?: string; // NEW: optional
+  headings?: HeadingOutlineItem[];
+  canonicalUrl?: string; // From <link rel="canonical">
+  markdown?: string; // Main content as Markdown, when the crawl asks for it
 }
 
-interface CrawlResult {
+export interface CrawlResult {
   url: string;
   path: string;
+  finalUrl?: string; // After redirects
+  rendered?: boolean; // Loaded in the headless browser
+  contentHash?: string;
+  fingerprint?: string; // Set by the crawl engine; see PageSnapshot
+  etag?: string;
+  lastModified?: string;
+  notModified?: boolean; // 304 response; metadata comes from the previous crawl
   metadata: PageMetadata;
   success: boolean;
   error?: string;
@@ -41,152 +88,64 @@ export class WebCrawlerService {
   private maxPages = 1000;
   private timeout = 10000;
   private userAgent = "TheLLMsTxt-Crawler/1.0";
-  private rateLimiter = {
-    lastRequestTime: 0,
-    requestsPerSecond: 25,
-    minInterval: 1000 / 25, // 40ms between requests
-  };
+  private maxRetries = 2; // Extra attempts after a 429/503 response
+
+  private engine = new CrawlEngine(
+    this.userAgent,
+    (url, domain, signal, throttle, renderMode, previous, markdown) =>
+      this.crawlPage(
+        url,
+        domain,
+        signal,
+        throttle,
+        renderMode,
+        previous,
+        markdown
+      )
+  );
+
+  /**
+   * Run the shared crawl engine. Each successful page goes through
+   * `processPage`; pass none to get the raw crawl results.
+   */
+  crawl(
+    url: string,
+    options?: CrawlOptions
+  ): Promise<CrawlOutcome<CrawlResult>>;
+  crawl<T>(
+    url: string,
+    options: CrawlOptions,
+    processPage: PageProcessor<T>
+  ): Promise<CrawlOutcome<T>>;
+  crawl<T>(
+    url: string,
+    options: CrawlOptions = {},
+    processPage?: PageProcessor<T>
+  ): Promise<CrawlOutcome<T | CrawlResult>> {
+    return processPage
+      ? this.engine.crawl(url, options, processPage)
+      : this.engine.crawl(url, options);
+  }
 
   async extractWebsiteData(
     url: string,
     maxDepth: number = 6,
     signal?: AbortSignal,
     maxPagesOverride?: number, // NEW: optional maxPages for demo gating
-    onProgress?: (pagesCrawled: number) => void // Optional progress callback
+    onProgress?: (pagesCrawled: number) => void, // Optional progress callback
+    crawlOptions: CrawlOptions = {}
   ): Promise<WebsiteData> {
     console.log(`🕷️ Starting website extraction for: ${url}`);
     try {
-      const baseUrl = this.normalizeUrl(url);
-      const baseDomain = new URL(baseUrl).hostname;
-      // console.log(`📍 Base URL: ${baseUrl}, Domain: ${baseDomain}`);
-
-      const discovered = new Set<string>(),
-        crawled = new Map<string, CrawlResult>(),
-        toCrawl: [string, number][] = [[baseUrl, 0]],
-        scrapedUrls: string[] = []; // Temporary array to track already scraped URLs
-      let pages = 0;
-      const maxPages =
-        typeof maxPagesOverride === "number" ? maxPagesOverride : this.maxPages;
-
-      console.log(
-        `🎯 Crawler initialized with maxPages: ${maxPages}, maxDepth: ${maxDepth}`
-      );
-      console.log(`🎯 Starting URL: ${baseUrl}, Domain: ${baseDomain}`);
-
-      while (toCrawl.length && pages < maxPages) {
-        // Check for cancellation
-        if (signal?.aborted) {
-          console.log("🛑 Website extraction cancelled by user");
-          throw new Error("CANCELLED");
-        }
-
-        const [cur, depth] = toCrawl.shift()!;
-        if (discovered.has(cur) || depth > maxDepth) continue;
-        discovered.add(cur);
-        scrapedUrls.push(cur); // Add to temporary array
-        pages++;
-        if (onProgress) onProgress(pages);
-
-        // console.log(
-        //   `📄 Crawling page ${pages}/${maxPages}`
-        // );
-        // console.log(
-        //   `🔗 Queue length: ${toCrawl.length}, Discovered: ${discovered.size}`
-        // );
-
-        try {
-          const res = await this.crawlPage(cur, baseDomain, signal);
-          crawled.set(cur, res);
-
-          if (res.success) {
-            // console.log(`✅ Successfully crawled: ${res.path}`);
-            // console.log(`   Title: "${res.metadata.title}"`);
-            // console.log(`   Description: "${res.metadata.description}"`);
-            // console.log(
-            //   `   Body content length: ${
-            //     res.metadata.bodyContent?.length || 0
-            //   } chars`
-            // );
-            // console.log(`   Links found: ${res.metadata.links.length}`);
-
-            if (res.metadata.links) {
-              // console.log(
-              //   `🔍 Found ${res.metadata.links.length} links on ${cur}`
-              // );
-              let addedLinks = 0;
-              for (const link of res.metadata.links) {
-                try {
-                  const abs = new URL(link, baseUrl).href;
-                  if (
-                    new URL(abs).hostname === baseDomain &&
-                    !discovered.has(abs) &&
-                    !scrapedUrls.includes(abs) // Check against temporary array
-                  ) {
-                    toCrawl.push([abs, depth + 1]);
-                    addedLinks++;
-                  }
-                } catch {}
-              }
-              // console.log(`✅ Added ${addedLinks} new links to crawl queue`);
-            }
-          } else {
-            // console.log(`❌ Failed to crawl: ${cur} - ${res.error}`);
-          }
-        } catch (e) {
-          const errorMsg = e instanceof Error ? e.message : "Unknown error";
-          // console.log(`💥 Error crawling ${cur}: ${errorMsg}`);
-          crawled.set(cur, {
-            url: cur,
-            path: this.getPathFromUrl(cur),
-            metadata: {
-              title: "",
-              description: "",
-              links: [],
-              bodyContent: "",
-            },
-            success: false,
-            error: errorMsg,
-          });
-        }
-        await new Promise((r) => setTimeout(r, 500));
-      }
-
-      console.log(
-        `🏁 Crawling finished. Pages crawled: ${pages}, Queue empty: ${
-          toCrawl.length === 0
-        }, Max pages reached: ${pages >= maxPages}`
-      );
-      // console.log(`🏁 Discovered URLs: ${Array.from(discovered).join(", ")}`);
-
-      const uniquePaths = this.extractUniquePaths(
-        Array.from(discovered),
-        baseUrl
-      );
-      // console.log(`🏁 Unique paths extracted: ${uniquePaths.length} paths`);
-      // console.log(`🔍 Found ${uniquePaths.length} unique paths:`, uniquePaths);
-
-      const pageMetadatas = this.createPageMetadatas(uniquePaths, crawled);
-      // console.log(`📊 Created metadata for ${pageMetadatas.length} pages`);
-
-      const main = crawled.get(baseUrl);
-      const result = {
-        title: main?.metadata.title || "Untitled",
-        description: main?.metadata.description || "No description available",
-        paths: uniquePaths,
-        totalPagesCrawled: pages,
-        totalLinksFound: this.countTotalLinks(crawled),
-        uniquePathsFound: uniquePaths.length,
-        pageMetadatas,
-      };
-
-      // console.log(`🎯 Extraction complete:`);
-      // console.log(`   Title: "${result.title}"`);
-      // console.log(`   Description: "${result.description}"`);
-      // console.log(`   Total pages crawled: ${result.totalPagesCrawled}`);
-      // console.log(`   Total links found: ${result.totalLinksFound}`);
-      // console.log(`   Unique paths: ${result.uniquePathsFound}`);
-
-      return result;
+      const outcome = await this.crawl(url, {
+        ...crawlOptions,
+        maxDepth,
+        maxPages:
+          typeof maxPagesOverride === "number" ? maxPagesOverride : this.maxPages,
+        signal,
+        onProgress,
+      });
+      return this.toWebsiteData(outcome);
     } catch (e) {
       const errorMsg = e instanceof Error ? e.message : "Unknown error";
       // console.log(`💥 Failed to extract website data: ${errorMsg}`);
@@ -194,52 +153,110 @@ export class WebCrawlerService {
     }
   }
 
+  /**
+   * Summarize a raw crawl the way extractWebsiteData does, for callers that
+   * also need the crawled pages themselves
+   */
+  toWebsiteData(outcome: CrawlOutcome<CrawlResult>): WebsiteData {
+    const uniquePaths = Array.from(
+      new Set(outcome.pages.map((p) => p.path))
+    ).sort();
+    const pageMetadatas = this.createPageMetadatas(uniquePaths, outcome.pages);
+
+    const main = outcome.startPage;
+    return {
+      title: main?.metadata.title || "Untitled",
+      description: main?.metadata.description || "No description available",
+      paths: uniquePaths,
+      totalPagesCrawled: outcome.totalPagesCrawled,
+      totalLinksFound: this.countTotalLinks(outcome.pages),
+      uniquePathsFound: uniquePaths.length,
+      pageMetadatas,
+      robotsSkippedPaths: outcome.robotsSkippedPaths,
+      sitemapEntries: outcome.sitemapEntries,
+      aliases: outcome.aliases,
+      crawlSummary: outcome.summary,
+      pageSnapshots: outcome.pages.map((page) => ({
+        path: page.path,
+        url: page.url,
+        etag: page.etag,
+        lastModified: page.lastModified,
+        fingerprint: page.fingerprint || "",
+        links: page.metadata.links,
+      })),
+      changes: outcome.changes,
+    };
+  }
+
   async crawlPage(
     url: string,
     baseDomain: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    throttle?: HostThrottle, // Per-crawl politeness; omit for one-off fetches
+    renderMode: RenderMode = "static",
+    previous?: PreviousPage, // Sent as a conditional request
+    markdown = false // Convert the main content to metadata.markdown
   ): Promise<CrawlResult> {
     try {
-      // Rate limiting for cheerio requests
-      await this.enforceRateLimit();
-
-      const startTime = Date.now();
-      const res = await axios.get(url, {
-        timeout: this.timeout,
-        headers: {
-          "User-Agent": this.userAgent,
-          Accept:
-            "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-          "Accept-Language": "en-US,en;q=0.5",
-          "Accept-Encoding": "gzip, deflate",
-          Connection: "keep-alive",
-        },
-        maxRedirects: 5,
-        signal,
-        validateStatus: () => true, // Always resolve
-      });
-      const fetchTime = Date.now() - startTime;
-      // Manual logging for debugging
-      console.log("URL:", url);
-      console.log("Status Code:", res.status);
-      if (typeof res.data === "string") {
-        console.log("HTML length:", res.data.length);
-        const $ = cheerio.load(res.data);
-        console.log("Links found:", $("a").length);
+      let page: { html: string; finalUrl: string } | undefined;
+      let rendered = false;
+      let validators: { etag?: string; lastModified?: string } = {};
+      if (renderMode === "browser") {
+        page = await this.tryRender(url, signal, throttle);
+        rendered = !!page;
       }
-      console.log(`⏱️ Fetch completed in ${fetchTime}ms for ${url}`);
-      console.log(
-        `📥 Response status: ${res.status}, User-Agent: ${this.userAgent}`
-      );
-      if (typeof res.data === "string") {
-        console.log(
-          `📄 First 500 chars of HTML for ${url}:\n${res.data.slice(0, 500)}`
+      if (!page) {
+        const response = await this.fetchStatic(
+          url,
+          signal,
+          throttle,
+          previous
         );
+        if (response.notModified && previous) {
+          return {
+            url,
+            path: getPathFromUrl(url),
+            finalUrl: url,
+            etag: response.etag || previous.etag,
+            lastModified: response.lastModified || previous.lastModified,
+            notModified: true,
+            metadata: { ...previous.metadata, links: [...previous.links] },
+            success: true,
+          };
+        }
+        page = response;
+        validators = response;
+      }
+
+      let $ = cheerio.load(page.html);
+      let metadata = this.extractMetadata($, page.finalUrl, baseDomain);
+      this.extractContent($, metadata);
+
+      // Client-rendered shell: little text or no links until scripts run
+      if (
+        renderMode === "auto" &&
+        pageRendererService.needsRender(
+          metadata.bodyContent || "",
+          metadata.links.length
+        )
+      ) {
+        const renderedPage = await this.tryRender(url, signal, throttle);
+        if (renderedPage) {
+          page = renderedPage;
+          rendered = true;
+          $ = cheerio.load(page.html);
+          metadata = this.extractMetadata($, page.finalUrl, baseDomain);
+          this.extractContent($, metadata);
+        }
       }
 
-      const $ = cheerio.load(res.data);
-      const metadata = this.extractMetadata($, url, baseDomain);
-      metadata.bodyContent = this.extractBodyText($);
+      if (markdown) {
+        metadata.markdown = htmlToMarkdown(
+          $,
+          page.finalUrl,
+          contentExtractorService.mainContent($)
+        );
+      }
 
       if (metadata.links && metadata.links.length) {
         console.log(`🔗 Links extracted from ${url}:`, metadata.links);
@@ -247,13 +264,22 @@ export class WebCrawlerService {
         console.log(`⚠️ No links extracted from ${url}`);
       }
 
-      return { url, path: this.getPathFromUrl(url), metadata, success: true };
+      return {
+        url,
+        path: getPathFromUrl(url),
+        finalUrl: page.finalUrl,
+        rendered,
+        etag: validators.etag,
+        lastModified: validators.lastModified,
+        metadata,
+        success: true,
+      };
     } catch (e) {
       const errorMsg = e instanceof Error ? e.message : "Unknown error";
       console.log(`❌ Failed to crawl ${url}: ${errorMsg}`);
       return {
         url,
-        path: this.getPathFromUrl(url),
+        path: getPathFromUrl(url),
         metadata: { title: "", description: "", links: [], bodyContent: "" },
         success: false,
         error: errorMsg,
@@ -261,6 +287,101 @@ export class WebCrawlerService {
     }
   }
 
+  private async fetchStatic(
+    url: string,
+    signal?: AbortSignal,
+    throttle?: HostThrottle,
+    previous?: { etag?: string; lastModified?: string }
+  ): Promise<{
+    html: string;
+    finalUrl: string;
+    etag?: string;
+    lastModified?: string;
+    notModified: boolean;
+  }> {
+    const host = new URL(url).hostname;
+    let res;
+    for (let attempt = 0; ; attempt++) {
+      const release = throttle
+        ? await throttle.acquire(host, signal)
+        : () => {};
+      try {
+        res = await axios.get(url, {
+          timeout: this.timeout,
+          headers: {
+            "User-Agent": this.userAgent,
+            Accept:
+              "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+            "Accept-Language": "en-US,en;q=0.5",
+            "Accept-Encoding": "gzip, deflate",
+            Connection: "keep-alive",
+            ...(previous?.etag && { "If-None-Match": previous.etag }),
+            ...(previous?.lastModified && {
+              "If-Modified-Since": previous.lastModified,
+            }),
+          },
+          maxRedirects: 5,
+          signal,
+          validateStatus: () => true, // Always resolve
+        });
+      } finally {
+        release();
+      }
+      throttle?.reportResponse(
+        host,
+        res.status,
+        res.headers["retry-after"] as string | undefined
+      );
+      if (res.status !== 429 && res.status !== 503) break;
+      if (!throttle || attempt >= this.maxRetries)
+        throw new Error(`HTTP ${res.status}`);
+    }
+    // Error pages are failed fetches, so a deleted page counts as removed
+    if (res.status !== 304 && (res.status < 200 || res.status >= 300)) {
+      throw new Error(`HTTP ${res.status}`);
+    }
+    return {
+      html: typeof res.data === "string" ? res.data : "",
+      finalUrl: res.request?.res?.responseUrl || url,
+      etag: res.headers["etag"] as string | undefined,
+      lastModified: res.headers["last-modified"] as string | undefined,
+      notModified: res.status === 304,
+    };
+  }
+
+  // Rendered page, or undefined when the browser can't be used for it
+  private async tryRender(
+    url: string,
+    signal?: AbortSignal,
+    throttle?: HostThrottle
+  ): Promise<{ html: string; finalUrl: string } | undefined> {
+    const host = new URL(url).hostname;
+    const release = throttle
+      ? await throttle.acquire(host, signal)
+      : () => {};
+    try {
+      const page = await pageRendererService.render(url, {
+        userAgent: this.userAgent,
+        timeout: this.timeout * 3,
+        signal,
+      });
+      throttle?.reportResponse(host, page.status, page.retryAfter);
+      // Let the static fetch retry or report errors
+      if (page.status < 200 || page.status >= 300) return undefined;
+      console.log(`🧭 Rendered ${url} in headless browser`);
+      return page;
+    } catch (e) {
+      if (signal?.aborted) throw new Error("CANCELLED");
+      console.warn(
+        `⚠️ Browser render failed for ${url}, using static HTML:`,
+        e instanceof Error ? e.message : e
+      );
+      return undefined;
+    } finally {
+      release();
+    }
+  }
+
   private extractMetadata(
     $: cheerio.CheerioAPI,
     url: string,
@@ -285,7 +406,9 @@ export class WebCrawlerService {
       if (href) {
         try {
           const abs = new URL(href, url).href;
-          if (new URL(abs).hostname === baseDomain) {
+          if (
+            stripWww(new URL(abs).hostname) === stripWww(baseDomain)
+          ) {
             links.push(abs);
             // console.log(`🔗 Found internal link: ${href} -> ${abs}`);
           } else {
@@ -306,52 +429,31 @@ export class WebCrawlerService {
     // console.log(`   Internal links: ${links.length}`);
     // console.log(`   Unique internal links: ${new Set(links).size}`);
 
+    let canonicalUrl: string | undefined;
+    const canonicalHref = $('link[rel~="canonical"]').first().attr("href");
+    if (canonicalHref) {
+      try {
+        canonicalUrl = new URL(canonicalHref, url).href;
+      } catch {}
+    }
+
     return {
       title,
       description,
       keywords: keywords || "",
       links: [...new Set(links)],
+      canonicalUrl,
     };
   }
 
-  private normalizeUrl(url: string): string {
-    return !url.startsWith("http://") && !url.startsWith("https://")
-      ? `https://${url}`
-      : url;
-  }
-
-  private getPathFromUrl(url: string): string {
-    try {
-      const u = new URL(url);
-      let path = u.pathname;
-      if (path.endsWith("/") && path !== "/") path = path.slice(0, -1);
-      if (u.search) path += u.search;
-      if (u.hash) path += u.hash;
-      return path || "/";
-    } catch {
-      return "/";
-    }
-  }
-
-  private extractUniquePaths(urls: string[], baseUrl: string): string[] {
-    const baseDomain = new URL(baseUrl).hostname,
-      unique = new Set<string>();
-    urls.forEach((url) => {
-      try {
-        const u = new URL(url);
-        if (u.hostname === baseDomain) unique.add(this.getPathFromUrl(url));
-      } catch {}
-    });
-    return Array.from(unique).sort();
-  }
-
   private createPageMetadatas(
     paths: string[],
-    crawled: Map<string, CrawlResult>
+    crawled: CrawlResult[]
   ) {
     // console.log(`📋 Creating page metadata for ${paths.length} paths`);
+    const byPath = new Map(crawled.map((p) => [p.path, p]));
     return paths.map((path) => {
-      const page = Array.from(crawled.values()).find((p) => p.path === path);
+      const page = byPath.get(path);
       const metadata = {
         path,
         title: page?.metadata.title || "",
@@ -361,6 +463,7 @@ export class WebCrawlerService {
             ? page.metadata.keywords
             : "",
         bodyContent: page?.metadata.bodyContent || "",
+        headings: page?.metadata.headings || [],
       };
 
       // console.log(`📄 Metadata for ${path}:`);
@@ -374,22 +477,30 @@ export class WebCrawlerService {
     });
   }
 
-  private countTotalLinks(crawled: Map<string, CrawlResult>): number {
+  private countTotalLinks(crawled: CrawlResult[]): number {
     let total = 0;
-    for (const page of crawled.values())
+    for (const page of crawled)
       if (page.success && page.metadata.links)
         total += page.metadata.links.length;
     return total;
   }
 
-  convertToPathSelections(paths: string[]): PathSelection[] {
+  convertToPathSelections(
+    paths: string[],
+    sitemapEntries: SitemapPathEntry[] = []
+  ): PathSelection[] {
     // console.log(`🔄 Converting ${paths.length} paths to PathSelection objects`);
+    const sitemapByPath = new Map(sitemapEntries.map((e) => [e.path, e]));
     return paths.map((path) => {
-      const selection = {
+      const sitemapEntry = sitemapByPath.get(path);
+      const selection: PathSelection = {
         path,
         allow: true,
         description: this.generatePathDescription(path),
       };
+      if (sitemapEntry?.lastmod) selection.lastModified = sitemapEntry.lastmod;
+      if (typeof sitemapEntry?.priority === "number")
+        selection.priority = sitemapPriorityToLevel(sitemapEntry.priority);
       // console.log(`   ${path} -> "${selection.description}"`);
       return selection;
     });
@@ -428,96 +539,28 @@ export class WebCrawlerService {
   async generateLLMsFull(
     websiteUrl: string,
     maxDepth: number = 6
-  ): Promise<{ content: string; totalPages: number; totalWords: number }> {
+  ): Promise<{
+    content: string;
+    totalPages: number;
+    totalWords: number;
+    robotsSkippedPaths: string[];
+  }> {
     // console.log(`📚 Starting LLMs Full generation for: ${websiteUrl}`);
     try {
-      const baseUrl = this.normalizeUrl(websiteUrl),
-        baseDomain = new URL(baseUrl).hostname,
-        timestamp = new Date().toISOString();
-      // console.log(`📍 Base URL: ${baseUrl}, Domain: ${baseDomain}`);
-
-      const discovered = new Set<string>(),
-        crawled = new Map<string, CrawlResult>(),
-        toCrawl: [string, number][] = [[baseUrl, 0]],
-        scrapedUrls: string[] = []; // Temporary array to track already scraped URLs
-      let pages = 0;
-
-      while (toCrawl.length && pages < this.maxPages) {
-        const [cur, depth] = toCrawl.shift()!;
-        if (discovered.has(cur) || depth > maxDepth) continue;
-        discovered.add(cur);
-        scrapedUrls.push(cur); // Add to temporary array
-        pages++;
-
-        // console.log(
-        //   `📄 LLMs Full - Crawling page ${pages}/${this.maxPages}: ${cur} (depth: ${depth})`
-        // );
-
-        try {
-          const res = await this.crawlPage(cur, baseDomain);
-          crawled.set(cur, res);
-
-          if (res.success) {
-            // console.log(`✅ LLMs Full - Successfully crawled: ${res.path}`);
-            // console.log(`   Title: "${res.metadata.title}"`);
-            // console.log(
-            //   `   Body content length: ${
-            //     res.metadata.bodyContent?.length || 0
-            //   } chars`
-            // );
-
-            if (res.metadata.links) {
-              for (const link of res.metadata.links) {
-                try {
-                  const abs = new URL(link, baseUrl).href;
-                  if (
-                    new URL(abs).hostname === baseDomain &&
-                    !discovered.has(abs) &&
-                    !scrapedUrls.includes(abs) // Check against temporary array
-                  )
-                    toCrawl.push([abs, depth + 1]);
-                } catch {}
-              }
-            }
-          } else {
-            // console.log(
-            //   `❌ LLMs Full - Failed to crawl: ${cur} - ${res.error}`
-            // );
-          }
-        } catch {}
-        await new Promise((r) => setTimeout(r, 500));
-      }
-
-      const allPages: {
-        url: string;
-        path: string;
-        title: string;
-        description: string;
-        keywords?: string;
-        bodyContent: string;
-      }[] = [];
-
-      // console.log(`📋 Processing ${crawled.size} crawled pages for LLMs Full`);
-
-      for (const [url, crawlResult] of crawled.entries()) {
-        let bodyContent = crawlResult.metadata.bodyContent || "";
-        const page = {
-          url,
-          path: crawlResult.path,
-          title: crawlResult.metadata.title || "Untitled",
-          description:
-            crawlResult.metadata.description || "No description available",
-          keywords: crawlResult.metadata.keywords || "",
-          bodyContent,
-        };
-
-        // console.log(`📄 LLMs Full - Page: ${page.path}`);
-        // console.log(`   Title: "${page.title}"`);
-        // console.log(`   Body content length: ${bodyContent.length} chars`);
-        // console.log(`   Body preview: "${bodyContent.substring(0, 100)}..."`);
-
-        allPages.push(page);
-      }
+      const timestamp = new Date().toISOString();
+      const outcome = await this.crawl(
+        websiteUrl,
+        { maxDepth, maxPages: this.maxPages },
+        (page) => ({
+          url: page.url,
+          path: page.path,
+          title: page.metadata.title || "Untitled",
+          description: page.metadata.description || "No description available",
+          keywords: page.metadata.keywords || "",
+          bodyContent: page.metadata.bodyContent || "",
+        })
+      );
+      const { baseDomain, processed: allPages } = outcome;
 
       let content = `# LLMs Full Site Content\n# Generated: ${timestamp}\n# Total Pages: ${allPages.length}\n# AI Enrichment: Disabled\n\n## Table of Contents\n`;
       allPages.forEach((p, i) => {
@@ -542,7 +585,12 @@ export class WebCrawlerService {
       // console.log(`   Total words: ${totalWords}`);
       // console.log(`   Content length: ${content.length} chars`);
 
-      return { content, totalPages: allPages.length, totalWords };
+      return {
+        content,
+        totalPages: allPages.length,
+        totalWords,
+        robotsSkippedPaths: outcome.robotsSkippedPaths,
+      };
     } catch (e) {
       const errorMsg = e instanceof Error ? e.message : "Unknown error";
       // console.log(`💥 Failed to generate llms-full.txt: ${errorMsg}`);
@@ -550,25 +598,11 @@ export class WebCrawlerService {
     }
   }
 
-  // Extract readable body content from HTML
-  private extractBodyText($: cheerio.CheerioAPI): string {
-    // console.log(`🧹 Cleaning HTML for body text extraction`);
-
-    $("script, style, noscript, iframe, svg").remove();
-
-    const bodyText = $("body").text();
-    // console.log(`📝 Raw body text length: ${bodyText.length} chars`);
-
-    const cleanedText = bodyText
-      .replace(/[ \t]+/g, " ")
-      .replace(/\n{3,}/g, "\n\n")
-      .trim();
-
-    const finalText = cleanedText.slice(0, 30000); // Increased from 2000 to 30000
-    // console.log(`✨ Cleaned body text length: ${finalText.length} chars`);
-    // console.log(`📖 Body text preview: "${finalText.substring(0, 100)}..."`);
-
-    return finalText;
+  // Main content text and headings outline, after links have been read
+  private extractContent($: cheerio.CheerioAPI, metadata: PageMetadata): void {
+    const { text, headings } = contentExtractorService.extract($);
+    metadata.bodyContent = text;
+    metadata.headings = headings;
   }
 
   // Enhanced scraping with Cheerio only
@@ -604,9 +638,6 @@ export class WebCrawlerService {
     keywords: string;
     bodySnippet: string;
   }> {
-    // Rate limiting for cheerio requests
-    await this.enforceRateLimit();
-
     const res = await axios.get(url, {
       timeout: this.timeout,
       headers: {
@@ -636,31 +667,11 @@ export class WebCrawlerService {
 
     const keywords = $('meta[name="keywords"]').attr("content") || "";
 
-    // Extract body content
-    $("script, style, noscript, iframe, svg").remove();
-    const bodyText = $("body").text();
-    const cleanedText = bodyText
-      .replace(/[ \t]+/g, " ")
-      .replace(/\n{3,}/g, "\n\n")
-      .trim();
-    const bodySnippet = cleanedText.slice(0, 30000);
+    // Extract main content
+    const bodySnippet = contentExtractorService.extract($).text;
 
     return { title, description, keywords, bodySnippet };
   }
-
-  // Rate limiting enforcement
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.rateLimiter.lastRequestTime;
-
-    if (timeSinceLastRequest < this.rateLimiter.minInterval) {
-      const delay = this.rateLimiter.minInterval - timeSinceLastRequest;
-      // console.log(`⏱️ Rate limiting: waiting ${delay}ms`);
-      await new Promise((resolve) => setTimeout(resolve, delay));
-    }
-
-    this.rateLimiter.lastRequestTime = Date.now();
-  }
 }
 
 export const webCrawlerService = new WebCrawlerService();
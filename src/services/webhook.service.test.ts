@@ -0,0 +1,223 @@
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import mongoose from "mongoose";
+import { webhookService } from "./webhook.service";
+import { WebhookDeliveryModel, WebhookModel } from "../models";
+import { WebhookRequestSchema } from "../types";
+
+const SECRET = "whsec_test";
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// Delivery records kept in memory in place of MongoDB
+let deliveries: Map<string, any>;
+
+function applyUpdate(filter: any, update: any): any {
+  const delivery = deliveries.get(String(filter._id));
+  if (!delivery) return null;
+  Object.assign(delivery, update.$set);
+  for (const field of Object.keys(update.$unset ?? {})) delete delivery[field];
+  return delivery;
+}
+
+async function waitFor(
+  check: () => boolean,
+  timeoutMs = 5000
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("WebhookService delivery", () => {
+  let server: http.Server;
+  let url: string;
+  let received: Received[];
+  let statuses: number[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(statuses.shift() ?? 200);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    deliveries = new Map();
+    received = [];
+    statuses = [];
+    const webhook = {
+      _id: new mongoose.Types.ObjectId(),
+      user: "user@example.com",
+      url,
+      events: ["crawl.completed"],
+      enabled: true,
+      secret: SECRET,
+    };
+    jest.spyOn(WebhookModel, "find").mockResolvedValue([webhook] as any);
+    jest.spyOn(WebhookModel, "findById").mockResolvedValue(webhook as any);
+    jest
+      .spyOn(WebhookDeliveryModel, "create")
+      .mockImplementation(async (doc: any) => {
+        const delivery = {
+          ...doc,
+          _id: new mongoose.Types.ObjectId(),
+          status: "pending",
+          attempts: 0,
+        };
+        deliveries.set(String(delivery._id), delivery);
+        return delivery;
+      });
+    jest
+      .spyOn(WebhookDeliveryModel, "updateOne")
+      .mockImplementation(((filter: any, update: any) =>
+        Promise.resolve(applyUpdate(filter, update))) as any);
+    // The retry poller claims whichever pending delivery is due
+    jest
+      .spyOn(WebhookDeliveryModel, "findOneAndUpdate")
+      .mockImplementation((() => {
+        const due = [...deliveries.values()].find(
+          (d) => d.status === "pending" && d.nextAttemptAt <= new Date()
+        );
+        return Promise.resolve(due ?? null);
+      }) as any);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("signs the timestamp and raw body with the webhook secret", async () => {
+    await webhookService.emit("user@example.com", "crawl.completed", {
+      url: "https://example.com",
+    });
+    await waitFor(() => received.length === 1);
+
+    const { headers, body } = received[0];
+    const expected = crypto
+      .createHmac("sha256", SECRET)
+      .update(`${headers["x-webhook-timestamp"]}.${body}`)
+      .digest("hex");
+    expect(headers["x-webhook-signature"]).toBe(`sha256=${expected}`);
+    expect(headers["x-webhook-event"]).toBe("crawl.completed");
+
+    const payload = JSON.parse(body);
+    expect(payload.id).toBe(headers["x-webhook-delivery"]);
+    expect(payload.event).toBe("crawl.completed");
+    expect(payload.data).toEqual({ url: "https://example.com" });
+  });
+
+  it("records a delivered attempt", async () => {
+    await webhookService.emit("user@example.com", "crawl.completed", {});
+    const [delivery] = deliveries.values();
+    await waitFor(() => delivery.status === "delivered");
+
+    expect(delivery).toMatchObject({
+      user: "user@example.com",
+      event: "crawl.completed",
+      attempts: 1,
+      lastStatusCode: 200,
+    });
+    expect(delivery.deliveredAt).toBeInstanceOf(Date);
+    expect(delivery.lastError).toBeUndefined();
+  });
+
+  it("retries failures with exponential backoff until maxAttempts", async () => {
+    statuses = [500, 503, 502];
+    await webhookService.emit("user@example.com", "crawl.completed", {});
+    const [delivery] = deliveries.values();
+    delivery.maxAttempts = 3;
+    await waitFor(() => delivery.attempts === 1);
+
+    expect(delivery.status).toBe("pending");
+    expect(delivery.lastStatusCode).toBe(500);
+    expect(delivery.lastError).toBe("HTTP 500");
+    const firstDelay = delivery.nextAttemptAt.getTime() - Date.now();
+    expect(firstDelay).toBeGreaterThan(25000);
+    expect(firstDelay).toBeLessThanOrEqual(30000);
+
+    delivery.nextAttemptAt = new Date(0);
+    await webhookService["poll"]();
+    expect(delivery.attempts).toBe(2);
+    expect(delivery.status).toBe("pending");
+    const secondDelay = delivery.nextAttemptAt.getTime() - Date.now();
+    expect(secondDelay).toBeGreaterThan(55000);
+    expect(secondDelay).toBeLessThanOrEqual(60000);
+
+    delivery.nextAttemptAt = new Date(0);
+    await webhookService["poll"]();
+    expect(delivery.attempts).toBe(3);
+    expect(delivery.status).toBe("failed");
+    expect(delivery.lastError).toBe("HTTP 502");
+    expect(received).toHaveLength(3);
+  });
+
+  it("delivers a retried event once the receiver recovers", async () => {
+    statuses = [500];
+    await webhookService.emit("user@example.com", "crawl.completed", {});
+    const [delivery] = deliveries.values();
+    await waitFor(() => delivery.attempts === 1);
+
+    delivery.nextAttemptAt = new Date(0);
+    await webhookService["poll"]();
+    expect(delivery.status).toBe("delivered");
+    expect(delivery.attempts).toBe(2);
+    expect(delivery.lastError).toBeUndefined();
+    // Every attempt of a delivery carries the same id
+    expect(received.map((r) => r.headers["x-webhook-delivery"])).toEqual([
+      String(delivery._id),
+      String(delivery._id),
+    ]);
+  });
+});
+
+describe("WebhookRequestSchema", () => {
+  const accepts = (url: string) =>
+    WebhookRequestSchema.safeParse({ url, events: ["crawl.completed"] })
+      .success;
+
+  it.each([
+    "http://localhost:3000/hook",
+    "http://127.0.0.1/hook",
+    "http://2130706433/hook",
+    "http://[::1]/hook",
+    "http://[::ffff:127.0.0.1]/hook",
+    "http://10.0.0.5/hook",
+    "http://172.16.0.1/hook",
+    "http://192.168.1.1/hook",
+    "http://169.254.169.254/latest/meta-data",
+    "http://[fe80::1]/hook",
+    "http://db.internal/hook",
+    "http://intranet/hook",
+  ])("rejects the internal URL %s", (url) => {
+    expect(accepts(url)).toBe(false);
+  });
+
+  it.each(["https://example.com/hook", "http://93.184.216.34/hook"])(
+    "accepts the public URL %s",
+    (url) => {
+      expect(accepts(url)).toBe(true);
+    }
+  );
+});
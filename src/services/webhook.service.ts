@@ -0,0 +1,284 @@
+import axios from "axios";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { WebhookDeliveryModel, WebhookModel } from "../models";
+import {
+  WebhookDeliveryResponse,
+  WebhookEvent,
+  WebhookRequest,
+  WebhookResponse,
+} from "../types";
+
+const RETRY_INTERVAL_MS = parseInt(
+  process.env.WEBHOOK_RETRY_INTERVAL_MS || "15000"
+);
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "6");
+const RETRY_BASE_DELAY_MS = 30000; // 30s, 1m, 2m, 4m, ...
+const DELIVERY_TIMEOUT_MS = 10000;
+// A claimed delivery is hidden from other pollers for this long
+const CLAIM_TIMEOUT_MS = 60000;
+
+/**
+ * Signed outgoing webhooks. Each event becomes one delivery record per
+ * subscribed endpoint; the first attempt is made right away and failures are
+ * retried with exponential backoff by a poller, so retries survive restarts.
+ *
+ * Requests carry `X-Webhook-Signature: sha256=<hex>`, an HMAC-SHA256 with
+ * the webhook's secret over `<X-Webhook-Timestamp>.<raw body>`.
+ */
+export class WebhookService {
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  /**
+   * Start retrying failed deliveries. Safe to call more than once.
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.poll(), RETRY_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async create(
+    user: string,
+    request: WebhookRequest
+  ): Promise<WebhookResponse> {
+    const webhook = await WebhookModel.create({
+      user,
+      url: request.url,
+      events: request.events,
+      enabled: request.enabled ?? true,
+      secret: `whsec_${crypto.randomBytes(24).toString("hex")}`,
+    });
+    console.log(`🪝 Registered webhook ${webhook._id} for ${user}`);
+    return { ...toResponse(webhook), secret: webhook.secret };
+  }
+
+  async list(user: string): Promise<WebhookResponse[]> {
+    const webhooks = await WebhookModel.find({ user }).sort({ createdAt: -1 });
+    return webhooks.map(toResponse);
+  }
+
+  async update(
+    user: string,
+    id: string,
+    changes: Partial<WebhookRequest>
+  ): Promise<WebhookResponse | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const webhook = await WebhookModel.findOneAndUpdate(
+      { _id: id, user },
+      { $set: changes },
+      { new: true }
+    );
+    return webhook ? toResponse(webhook) : null;
+  }
+
+  async remove(user: string, id: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(id)) return false;
+    const deleted = await WebhookModel.deleteOne({ _id: id, user });
+    if (!deleted.deletedCount) return false;
+    // Nothing left to deliver to
+    await WebhookDeliveryModel.updateMany(
+      { webhookId: id, status: "pending" },
+      { $set: { status: "failed", lastError: "Webhook deleted" } }
+    );
+    return true;
+  }
+
+  /**
+   * Delivery log of a webhook, newest first
+   */
+  async deliveries(
+    user: string,
+    id: string,
+    limit = 50
+  ): Promise<WebhookDeliveryResponse[] | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const webhook = await WebhookModel.findOne({ _id: id, user });
+    if (!webhook) return null;
+    const deliveries = await WebhookDeliveryModel.find({ webhookId: id })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+    return deliveries.map(toDeliveryResponse);
+  }
+
+  /**
+   * Send an event to every enabled webhook of the user subscribed to it.
+   * Never throws; delivery problems are recorded on the delivery.
+   */
+  async emit(
+    user: string | undefined,
+    event: WebhookEvent,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    if (!user) return;
+    try {
+      const webhooks = await WebhookModel.find({
+        user,
+        enabled: true,
+        events: event,
+      });
+      for (const webhook of webhooks) {
+        const delivery = await WebhookDeliveryModel.create({
+          webhookId: String(webhook._id),
+          user,
+          event,
+          payload: { event, createdAt: new Date().toISOString(), data },
+          maxAttempts: MAX_ATTEMPTS,
+          nextAttemptAt: new Date(Date.now() + CLAIM_TIMEOUT_MS),
+        });
+        this.attempt(delivery, webhook).catch((err) =>
+          console.error(`❌ Webhook delivery ${delivery._id} failed:`, err)
+        );
+      }
+    } catch (error) {
+      console.error(`❌ Failed to queue ${event} webhooks:`, error);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (;;) {
+        // Push nextAttemptAt ahead so no other instance sends it meanwhile
+        const delivery = await WebhookDeliveryModel.findOneAndUpdate(
+          { status: "pending", nextAttemptAt: { $lte: new Date() } },
+          { $set: { nextAttemptAt: new Date(Date.now() + CLAIM_TIMEOUT_MS) } },
+          { sort: { nextAttemptAt: 1 }, new: true }
+        );
+        if (!delivery) break;
+        const webhook = await WebhookModel.findById(delivery.webhookId);
+        await this.attempt(delivery, webhook);
+      }
+    } catch (err) {
+      console.error("❌ Webhook retry poll failed:", err);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async attempt(delivery: any, webhook: any): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    if (!webhook || !webhook.enabled) {
+      await WebhookDeliveryModel.updateOne(
+        { _id: delivery._id },
+        {
+          $set: {
+            status: "failed",
+            attempts,
+            lastError: "Webhook deleted or disabled",
+          },
+        }
+      );
+      return;
+    }
+
+    const body = JSON.stringify({
+      id: String(delivery._id),
+      ...delivery.payload,
+    });
+    const signature = sign(webhook.secret, timestamp, body);
+    let statusCode: number | undefined;
+    let error: string | undefined;
+    try {
+      const res = await axios.post(webhook.url, body, {
+        timeout: DELIVERY_TIMEOUT_MS,
+        maxRedirects: 0,
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "TheLLMsTxt-Webhooks/1.0",
+          "X-Webhook-Event": delivery.event,
+          "X-Webhook-Delivery": String(delivery._id),
+          "X-Webhook-Timestamp": timestamp,
+          "X-Webhook-Signature": `sha256=${signature}`,
+        },
+        validateStatus: () => true, // Always resolve
+      });
+      statusCode = res.status;
+      if (res.status < 200 || res.status >= 300) error = `HTTP ${res.status}`;
+    } catch (e) {
+      error = e instanceof Error ? e.message : "Unknown error";
+    }
+
+    if (!error) {
+      await WebhookDeliveryModel.updateOne(
+        { _id: delivery._id },
+        {
+          $set: {
+            status: "delivered",
+            attempts,
+            lastStatusCode: statusCode,
+            deliveredAt: new Date(),
+          },
+          $unset: { lastError: 1 },
+        }
+      );
+      console.log(`📡 Delivered ${delivery.event} to ${webhook.url}`);
+      return;
+    }
+
+    const retry = attempts < delivery.maxAttempts;
+    await WebhookDeliveryModel.updateOne(
+      { _id: delivery._id },
+      {
+        $set: {
+          status: retry ? "pending" : "failed",
+          attempts,
+          lastStatusCode: statusCode,
+          lastError: error,
+          nextAttemptAt: new Date(
+            Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)
+          ),
+        },
+      }
+    );
+    console.warn(
+      `⚠️ Webhook ${delivery.event} to ${webhook.url} failed (${error})${
+        retry ? ", will retry" : ""
+      }`
+    );
+  }
+}
+
+function sign(secret: string, timestamp: string, body: string): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+function toResponse(webhook: any): WebhookResponse {
+  return {
+    id: String(webhook._id),
+    url: webhook.url,
+    events: webhook.events,
+    enabled: webhook.enabled,
+    createdAt: webhook.createdAt?.toISOString(),
+  };
+}
+
+function toDeliveryResponse(delivery: any): WebhookDeliveryResponse {
+  return {
+    id: String(delivery._id),
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt:
+      delivery.status === "pending"
+        ? delivery.nextAttemptAt?.toISOString()
+        : undefined,
+    lastStatusCode: delivery.lastStatusCode,
+    lastError: delivery.lastError,
+    payload: delivery.payload,
+    createdAt: delivery.createdAt?.toISOString(),
+    deliveredAt: delivery.deliveredAt?.toISOString(),
+  };
+}
+
+export const webhookService = new WebhookService();
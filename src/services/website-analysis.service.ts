@@ -0,0 +1,359 @@
+import { webCrawlerService, WebsiteData } from "./web-crawler.service";
+import {
+  AIEnrichmentError,
+  EnrichmentPage,
+  packEnrichmentBatches,
+  xaiService,
+} from "./ai.service";
+import { AIUsageContext, emptyUsageTotals } from "./ai-usage.service";
+import { crawlHistoryService } from "./crawl-history.service";
+import { llmsTxtService } from "./llms-txt.service";
+import {
+  AIEnrichmentFailure,
+  AIGeneratedContent,
+  AISelection,
+  CrawlLimits,
+  LLMBot,
+  LlmsTxtFormat,
+  PathSelection,
+  WebsiteAnalysisResponse,
+} from "../types";
+
+export interface EnrichmentResult {
+  aiGeneratedContent: AIGeneratedContent[];
+  reusedCount: number; // Taken from the previous crawl for unchanged pages
+  failures: AIEnrichmentFailure[]; // Pages left without AI content
+  rateLimitHit: boolean;
+  rateLimitError?: string;
+}
+
+export interface WebsiteAnalysisOptions extends CrawlLimits, AISelection {
+  url: string;
+  aiEnrichment?: boolean;
+  incremental?: boolean; // Re-crawl against the last crawl of the site (default)
+  signal?: AbortSignal;
+  sessionId?: string;
+  user?: string; // AI usage is counted against this user and job
+  jobId?: string;
+  onProgress?: (progress: number, message: string) => void;
+}
+
+export class WebsiteAnalysisService {
+  /**
+   * Crawl a website, convert its paths and optionally run AI enrichment.
+   * Used by background jobs; the SSE route drives the same steps itself so
+   * it can stream events in between.
+   */
+  async analyze(options: WebsiteAnalysisOptions): Promise<{
+    websiteData: WebsiteData;
+    response: WebsiteAnalysisResponse;
+    rateLimitHit: boolean;
+  }> {
+    const {
+      url,
+      aiEnrichment = false,
+      incremental = true,
+      signal,
+      sessionId,
+      onProgress,
+    } = options;
+
+    onProgress?.(1, "Starting extraction...");
+    const previous = incremental
+      ? await crawlHistoryService.findPrevious(url, options.user)
+      : undefined;
+    const websiteData = await webCrawlerService.extractWebsiteData(
+      url,
+      6,
+      signal,
+      options.maxPages,
+      (pagesCrawled) =>
+        onProgress?.(
+          Math.min(5 + pagesCrawled, 90),
+          `Crawling website... (${pagesCrawled} pages)`
+        ),
+      {
+        includePatterns: options.includePatterns,
+        excludePatterns: options.excludePatterns,
+        timeBudgetMs: options.timeBudgetMs,
+        renderMode: options.renderMode,
+        previousPages: previous?.pages,
+      }
+    );
+    onProgress?.(90, "Website data extracted");
+
+    const pathSelections = webCrawlerService.convertToPathSelections(
+      websiteData.paths,
+      websiteData.sitemapEntries
+    );
+
+    let enrichment: EnrichmentResult | undefined;
+    const usage: AIUsageContext = {
+      user: options.user,
+      jobId: options.jobId,
+      totals: emptyUsageTotals(),
+    };
+    if (aiEnrichment) {
+      enrichment = await this.enrichPaths(websiteData, pathSelections, {
+        signal,
+        sessionId,
+        ai: { aiProvider: options.aiProvider, aiModel: options.aiModel },
+        usage,
+        previousContent: previous?.aiGeneratedContent,
+        onProgress: (completed, total) =>
+          onProgress?.(
+            90 + Math.round((completed / total) * 9),
+            `AI enrichment: ${completed}/${total}`
+          ),
+      });
+    }
+
+    onProgress?.(100, "Analysis complete");
+    return {
+      websiteData,
+      response: {
+        ...this.buildResponse(
+          url,
+          websiteData,
+          pathSelections,
+          enrichment?.aiGeneratedContent,
+          enrichment?.failures
+        ),
+        aiUsage: aiEnrichment ? usage.totals : undefined,
+      },
+      rateLimitHit: enrichment?.rateLimitHit ?? false,
+    };
+  }
+
+  /**
+   * Run AI enrichment for each path. Pages are sent in batches that fit the
+   * token budget; pages missing from a batch's answer are retried one by
+   * one. Stops early, without throwing, when the AI rate limit is reached
+   * or the user's monthly usage cap is (the pages left are reported as
+   * usage_cap failures); throws CANCELLED when the signal is aborted. Pages
+   * a re-crawl found unchanged reuse `previousContent` instead.
+   */
+  async enrichPaths(
+    websiteData: WebsiteData,
+    pathSelections: PathSelection[],
+    options: {
+      signal?: AbortSignal;
+      sessionId?: string;
+      ai?: AISelection;
+      usage?: AIUsageContext;
+      previousContent?: AIGeneratedContent[];
+      onProgress?: (completed: number, total: number) => void;
+    } = {}
+  ): Promise<EnrichmentResult> {
+    const aiGeneratedContent: AIGeneratedContent[] = [];
+    const total = pathSelections.length;
+    let completed = 0;
+    let reusedCount = 0;
+    const failures: AIEnrichmentFailure[] = [];
+
+    const unchanged = new Set(websiteData.changes?.unchanged || []);
+    const reusable = new Map(
+      (options.previousContent || [])
+        .filter((ai) => unchanged.has(ai.path))
+        .map((ai) => [ai.path, ai])
+    );
+    // Stored on the crawl data so the next re-crawl can reuse it
+    websiteData.aiGeneratedContent = aiGeneratedContent;
+
+    const findMeta = (path: string) =>
+      websiteData.pageMetadatas?.find((m) => m.path === path);
+    const enriched = new Set<string>();
+    const record = (ai: AIGeneratedContent) => {
+      enriched.add(ai.path);
+      const meta = findMeta(ai.path);
+      if (meta) (meta as any).summary = ai.summary;
+      aiGeneratedContent.push(ai);
+      completed++;
+      options.onProgress?.(completed, total);
+    };
+    const rateLimited = (message: string): EnrichmentResult => ({
+      aiGeneratedContent,
+      reusedCount,
+      failures,
+      rateLimitHit: true,
+      rateLimitError: message,
+    });
+    const usageCapped = (message: string): EnrichmentResult => {
+      console.warn(`⚠️ Stopping AI enrichment: ${message}`);
+      for (const page of pending) {
+        if (enriched.has(page.path)) continue;
+        if (failures.some((failure) => failure.path === page.path)) continue;
+        failures.push({ path: page.path, reason: "usage_cap", message });
+      }
+      return { aiGeneratedContent, reusedCount, failures, rateLimitHit: false };
+    };
+
+    const pending: EnrichmentPage[] = [];
+    for (const path of pathSelections) {
+      const reused = reusable.get(path.path);
+      if (reused) {
+        reusedCount++;
+        record(reused);
+        continue;
+      }
+
+      const meta = findMeta(path.path);
+      let content = "";
+      if (meta?.title) content += `Title: ${meta.title}\n`;
+      if (meta?.description) content += `Description: ${meta.description}\n`;
+      if (meta?.keywords) content += `Keywords: ${meta.keywords}\n`;
+      if (!content) content = `Path: ${path.path}`;
+      pending.push({
+        path: path.path,
+        content,
+        bodyContent: meta?.bodyContent,
+      });
+    }
+
+    for (const batch of packEnrichmentBatches(pending)) {
+      if (options.signal?.aborted) throw new Error("CANCELLED");
+
+      let batched = new Map<string, AIGeneratedContent>();
+      if (batch.length > 1) {
+        try {
+          batched = await xaiService.generateAIContentBatch(
+            batch,
+            options.signal,
+            options.sessionId,
+            options.ai,
+            options.usage
+          );
+        } catch (error) {
+          const reason =
+            error instanceof AIEnrichmentError ? error.reason : undefined;
+          if (reason === "cancelled") throw new Error("CANCELLED");
+          if (reason === "rate_limited") {
+            return rateLimited((error as Error).message);
+          }
+          if (reason === "usage_cap") {
+            return usageCapped((error as Error).message);
+          }
+          console.warn("⚠️ Batched AI enrichment failed:", error);
+        }
+        if (batched.size < batch.length) {
+          console.warn(
+            `⚠️ Batched AI enrichment missed ${
+              batch.length - batched.size
+            } of ${batch.length} pages, retrying them one by one`
+          );
+        }
+      }
+
+      for (const page of batch) {
+        const fromBatch = batched.get(page.path);
+        if (fromBatch) {
+          record(fromBatch);
+          continue;
+        }
+        if (options.signal?.aborted) throw new Error("CANCELLED");
+
+        try {
+          // The body goes into the prompt, and so the cache key, too
+          record(
+            await xaiService.generateAIContent(
+              page.path,
+              page.bodyContent
+                ? `${page.content.trimEnd()}\n${page.bodyContent}`
+                : page.content,
+              options.signal,
+              options.sessionId,
+              options.ai,
+              options.usage
+            )
+          );
+        } catch (error) {
+          const reason =
+            error instanceof AIEnrichmentError
+              ? error.reason
+              : "provider_error";
+          const message =
+            error instanceof Error ? error.message : String(error);
+          if (reason === "cancelled") throw new Error("CANCELLED");
+          if (reason === "rate_limited") return rateLimited(message);
+          if (reason === "usage_cap") return usageCapped(message);
+          console.warn(
+            `⚠️ AI enrichment failed for path ${page.path}:`,
+            error
+          );
+          failures.push({ path: page.path, reason, message });
+        }
+        // No delay needed - AI service queue handles rate limiting automatically
+      }
+    }
+
+    if (reusedCount)
+      console.log(`♻️ Reused AI content for ${reusedCount} unchanged pages`);
+    return { aiGeneratedContent, reusedCount, failures, rateLimitHit: false };
+  }
+
+  /**
+   * Shape crawl data into the public analysis response
+   */
+  buildResponse(
+    url: string,
+    websiteData: WebsiteData,
+    pathSelections: PathSelection[],
+    aiGeneratedContent?: AIGeneratedContent[],
+    aiFailures?: AIEnrichmentFailure[]
+  ): WebsiteAnalysisResponse {
+    return {
+      success: true,
+      metadata: {
+        title: websiteData.title,
+        description: websiteData.description,
+        url: url,
+        totalPagesCrawled: websiteData.totalPagesCrawled,
+        totalLinksFound: websiteData.totalLinksFound,
+        uniquePathsFound: websiteData.uniquePathsFound,
+        crawl: websiteData.crawlSummary,
+      },
+      paths: pathSelections,
+      pageMetadatas: websiteData.pageMetadatas,
+      aiGeneratedContent,
+      aiFailures: aiFailures?.length ? aiFailures : undefined,
+      robotsSkippedPaths: websiteData.robotsSkippedPaths,
+      aliases: websiteData.aliases,
+      changes: websiteData.changes,
+    };
+  }
+
+  /**
+   * llms.txt for an analysis, allowing every path it found. Jobs and SSE
+   * runs keep it with the crawl so the next run can tell whether it changed.
+   */
+  generateLlmsTxt(
+    url: string,
+    websiteData: WebsiteData,
+    response: WebsiteAnalysisResponse,
+    options: {
+      bots?: LLMBot[];
+      aiEnrichment?: boolean;
+      format?: LlmsTxtFormat;
+    } = {}
+  ): string {
+    return llmsTxtService.generate(
+      {
+        websiteData,
+        pathSelections: response.paths,
+        rules: response.paths.map((p) => ({
+          id: p.path,
+          userAgent: "*",
+          type: p.allow ? "Allow" : "Disallow",
+          path: p.path,
+        })),
+        selectedBots: options.bots,
+        aiGeneratedContent: response.aiGeneratedContent || [],
+        enhancedFeatures: { aiEnrichment: options.aiEnrichment },
+        websiteUrl: url,
+      },
+      options.format
+    );
+  }
+}
+
+export const websiteAnalysisService = new WebsiteAnalysisService();
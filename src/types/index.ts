@@ -1,3 +1,4 @@
+import { isIP } from "net";
 import { z } from "zod";
 
 // 1. LLMBot - Union type for all supported bots
@@ -23,6 +24,55 @@ export interface PathSelection {
   aiUsageDirective?: "allow" | "citation-only" | "no-fine-tuning" | "disallow";
 }
 
+// llms.txt layouts: "legacy" is the original TheLLMsTxt layout, "spec" follows llmstxt.org
+export type LlmsTxtFormat = "legacy" | "spec";
+
+// One entry of a page's headings outline (h1 = level 1)
+export interface HeadingOutlineItem {
+  level: number;
+  text: string;
+}
+
+// A crawled URL folded into another page's path
+export interface PathAlias {
+  path: string;
+  canonicalPath: string;
+  reason: "normalized" | "redirect" | "canonical" | "duplicate-content";
+}
+
+// Effective crawl scope and limits, echoed back in responses
+export interface CrawlSummary {
+  maxDepth: number;
+  maxPages: number;
+  includePatterns: string[];
+  excludePatterns: string[];
+  timeBudgetMs?: number;
+  renderMode: "static" | "auto" | "browser";
+  renderedPages: number; // Pages loaded in the headless browser
+  notModifiedPages: number; // Pages the server answered with 304 Not Modified
+  stopReason: "completed" | "max-pages" | "time-budget";
+  durationMs: number;
+}
+
+// Per-URL state kept from a crawl so the next one can send conditional
+// requests and tell which pages changed
+export interface PageSnapshot {
+  path: string;
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  fingerprint: string; // Hash of title, description, keywords and text
+  links: string[];
+}
+
+// How a re-crawl differs from the previous run of the same site
+export interface CrawlChanges {
+  added: string[];
+  changed: string[];
+  unchanged: string[];
+  removed: string[]; // Only reported when the crawl ran to completion
+}
+
 // 3. AI Generated Content
 export interface AIGeneratedContent {
   path: string;
@@ -34,10 +84,73 @@ export interface AIGeneratedContent {
   aiUsageDirective?: "allow" | "citation-only" | "no-fine-tuning" | "disallow";
   generatedAt: string;
   model: string;
+  provider?: LLMProviderName;
+}
+
+// What the model has to return for a page; enums are matched
+// case-insensitively and extra keywords are dropped
+const lowercase = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.string().trim().toLowerCase().pipe(z.enum(values));
+
+export const AIEnrichmentOutputSchema = z.object({
+  summary: z.string().trim().min(1),
+  contextSnippet: z.string().trim().min(1),
+  keywords: z
+    .array(z.string().trim().min(1))
+    .transform((keywords) => keywords.slice(0, 10)),
+  contentType: lowercase([
+    "page",
+    "blog",
+    "docs",
+    "project",
+    "archive",
+    "terms",
+  ] as const),
+  priority: lowercase(["high", "medium", "low"] as const),
+  aiUsageDirective: lowercase([
+    "allow",
+    "citation-only",
+    "no-fine-tuning",
+    "disallow",
+  ] as const),
+});
+
+export type AIEnrichmentOutput = z.infer<typeof AIEnrichmentOutputSchema>;
+
+// A batched answer; pages are checked one by one so a bad one doesn't cost
+// the rest of the batch
+export const AIBatchEnrichmentOutputSchema = z.object({
+  pages: z.array(z.unknown()),
+});
+
+export const AIBatchEnrichmentItemSchema = AIEnrichmentOutputSchema.extend({
+  path: z.string(),
+});
+
+export type AIEnrichmentFailureReason =
+  | "rate_limited"
+  | "usage_cap"
+  | "cancelled"
+  | "provider_error"
+  | "empty_response"
+  | "invalid_json"
+  | "schema_mismatch";
+
+// A page left without AI content, and why
+export interface AIEnrichmentFailure {
+  path: string;
+  reason: AIEnrichmentFailureReason;
+  message: string;
+}
+
+// Why AI enrichment stopped early; later pages have no AI content
+export interface AIEnrichmentStop {
+  reason: Extract<AIEnrichmentFailureReason, "usage_cap" | "rate_limited">;
+  message: string;
 }
 
 // 6. LLMs Full Payload
-export interface LLMsFullPayload {
+export interface LLMsFullPayload extends CrawlLimits, AISelection {
   websiteUrl: string;
   includeImages?: boolean;
   includeLinks?: boolean;
@@ -46,10 +159,11 @@ export interface LLMsFullPayload {
 }
 
 // Additional types for API requests and responses
-export interface WebsiteAnalysisRequest {
+export interface WebsiteAnalysisRequest extends CrawlLimits, AISelection {
   url: string;
   bots: LLMBot[];
   aiEnrichment?: boolean;
+  incremental?: boolean;
 }
 
 export interface WebsiteAnalysisResponse {
@@ -60,6 +174,7 @@ export interface WebsiteAnalysisResponse {
     totalPagesCrawled?: number;
     totalLinksFound?: number;
     uniquePathsFound?: number;
+    crawl?: CrawlSummary;
   };
   paths: PathSelection[];
   pageMetadatas?: Array<{
@@ -68,24 +183,110 @@ export interface WebsiteAnalysisResponse {
     description: string;
     keywords?: string;
     bodyContent?: string;
+    headings?: HeadingOutlineItem[];
   }>;
   aiGeneratedContent?: AIGeneratedContent[];
+  aiFailures?: AIEnrichmentFailure[]; // Pages the AI couldn't enrich
+  aiUsage?: AIUsageTotals; // LLM calls made for this analysis
   perPathMetadata?: Array<{
     path: string;
     title?: string;
     description?: string;
     keywords?: string;
   }>;
+  robotsSkippedPaths?: string[]; // Paths the site's robots.txt disallows for our crawler
+  aliases?: PathAlias[]; // Duplicate URLs collapsed into the listed paths
+  changes?: CrawlChanges; // Present when an earlier crawl of the site exists
   success: boolean;
   error?: string;
 }
 
+// A page field that differs between two crawls
+export interface PageFieldChange {
+  path: string;
+  from?: string;
+  to?: string;
+}
+
+export interface CrawlDiffResponse {
+  success: boolean;
+  domain: string;
+  from: { id: string; url: string; crawledAt: string };
+  to: { id: string; url: string; crawledAt: string };
+  addedPaths: string[];
+  removedPaths: string[];
+  titleChanges: PageFieldChange[];
+  descriptionChanges: PageFieldChange[];
+  summaryChanges: PageFieldChange[]; // AI summary
+  priorityChanges: PageFieldChange[]; // AI priority
+  directiveChanges: PageFieldChange[]; // AI usage directive
+  llmsTxtDiff: string; // Unified diff of the generated llms.txt; empty when equal
+  error?: string;
+}
+
 export interface LLMsFullGenerationResponse {
   success: boolean;
   content: string;
   filename: string;
   totalPages: number;
   totalWords: number;
+  crawl?: CrawlSummary;
+  aiUsage?: AIUsageTotals;
+  aiStopped?: AIEnrichmentStop;
+  error?: string;
+}
+
+export interface RobotsTxtGenerationResponse {
+  success: boolean;
+  content: string;
+  filename: string;
+  merged: boolean; // true when the site's existing robots.txt was kept and extended
+  error?: string;
+}
+
+export interface LlmsTxtGenerationResponse {
+  success: boolean;
+  content: string;
+  filename: string;
+  format: LlmsTxtFormat;
+  error?: string;
+}
+
+// Parsed structure of an llms.txt file (llmstxt.org format)
+export interface LlmsTxtDocument {
+  title: string | null;
+  summary: string | null;
+  details: string[];
+  sections: Array<{
+    name: string;
+    line: number;
+    optional: boolean;
+    links: Array<{
+      name: string;
+      url: string;
+      notes?: string;
+      line: number;
+    }>;
+  }>;
+}
+
+export interface LlmsTxtIssue {
+  line: number;
+  severity: "error" | "warning";
+  code: string;
+  message: string;
+}
+
+export interface LlmsTxtValidationResponse {
+  success: boolean;
+  valid: boolean;
+  document?: LlmsTxtDocument;
+  issues: LlmsTxtIssue[];
+  crawl?: {
+    url: string;
+    pagesCrawled: number;
+    pathsFound: number;
+  };
   error?: string;
 }
 
@@ -96,35 +297,419 @@ export interface MarkdownGenerationResponse {
     content: string;
     filename: string;
   }>;
+  aiUsage?: AIUsageTotals;
+  aiStopped?: AIEnrichmentStop;
   error?: string;
 }
 
 // Zod schemas for validation
+export const LLMBotSchema = z.enum([
+  "ChatGPT-User",
+  "GPTBot",
+  "GoogleExtended",
+  "Claude",
+  "Anthropic",
+  "CCBot",
+]);
+
+export const LlmsTxtFormatSchema = z.enum(["legacy", "spec"]);
+
+export const PathSelectionSchema = z.object({
+  path: z.string().startsWith("/", "Paths must start with /"),
+  allow: z.boolean(),
+  description: z.string().optional(),
+  priority: z.enum(["high", "medium", "low"]).optional(),
+  tags: z.array(z.string()).optional(),
+  contentType: z
+    .enum(["page", "blog", "docs", "project", "archive", "terms"])
+    .optional(),
+  lastModified: z.string().optional(),
+  summary: z.string().optional(),
+  contextSnippet: z.string().optional(),
+  aiUsageDirective: z
+    .enum(["allow", "citation-only", "no-fine-tuning", "disallow"])
+    .optional(),
+});
+
+// Path globs: `*` matches within one segment, `**` across segments
+const PathPatternSchema = z
+  .string()
+  .min(1)
+  .max(200)
+  .startsWith("/", "Path patterns must start with /");
+
+export const CrawlLimitsSchema = z.object({
+  includePatterns: z.array(PathPatternSchema).max(50).optional(),
+  excludePatterns: z.array(PathPatternSchema).max(50).optional(),
+  maxPages: z.number().int().min(1).max(1000).optional(),
+  timeBudgetMs: z.number().int().min(1000).max(3600000).optional(),
+  // "auto" renders pages in headless Chromium only when static HTML looks empty
+  renderMode: z.enum(["static", "auto", "browser"]).optional(),
+});
+
+export type CrawlLimits = z.infer<typeof CrawlLimitsSchema>;
+
+export const LLM_PROVIDERS = ["xai", "gemini", "openai", "mock"] as const;
+
+export const LLMProviderNameSchema = z.enum(LLM_PROVIDERS);
+
+export type LLMProviderName = z.infer<typeof LLMProviderNameSchema>;
+
+// Per-request LLM choice; unset fields fall back to LLM_PROVIDER and the
+// provider's configured model
+export const AISelectionSchema = z.object({
+  aiProvider: LLMProviderNameSchema.optional(),
+  aiModel: z.string().trim().min(1).max(100).optional(),
+});
+
+export type AISelection = z.infer<typeof AISelectionSchema>;
+
 export const WebsiteAnalysisRequestSchema = z.object({
   url: z.string().url("Invalid URL format"),
-  bots: z
+  bots: z.array(LLMBotSchema).min(1, "At least one bot must be selected"),
+  aiEnrichment: z.boolean().optional(),
+  llmsTxtFormat: LlmsTxtFormatSchema.optional(),
+  // Reuse the previous crawl of the site (default); false re-fetches everything
+  incremental: z.boolean().optional(),
+  ...CrawlLimitsSchema.shape,
+  ...AISelectionSchema.shape,
+});
+
+export const LlmsTxtGenerationRequestSchema = z.object({
+  format: LlmsTxtFormatSchema.optional(),
+  websiteUrl: z.string().url("Invalid website URL"),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  bots: z.array(LLMBotSchema).optional(),
+  paths: z.array(PathSelectionSchema),
+  pageMetadatas: z
+    .array(
+      z.object({
+        path: z.string(),
+        title: z.string().optional(),
+        description: z.string().optional(),
+        keywords: z.string().optional(),
+      })
+    )
+    .optional(),
+  aiGeneratedContent: z
     .array(
-      z.enum([
-        "ChatGPT-User",
-        "GPTBot",
-        "GoogleExtended",
-        "Claude",
-        "Anthropic",
-        "CCBot",
-      ])
+      z.object({
+        path: z.string(),
+        summary: z.string().optional(),
+        contextSnippet: z.string().optional(),
+        keywords: z.array(z.string()).optional(),
+        contentType: z.string().optional(),
+        priority: z.enum(["high", "medium", "low"]).optional(),
+        aiUsageDirective: z
+          .enum(["allow", "citation-only", "no-fine-tuning", "disallow"])
+          .optional(),
+        generatedAt: z.string(),
+        model: z.string(),
+      })
     )
-    .min(1, "At least one bot must be selected"),
+    .optional(),
   aiEnrichment: z.boolean().optional(),
 });
 
+export type LlmsTxtGenerationRequest = z.infer<
+  typeof LlmsTxtGenerationRequestSchema
+>;
+
 export const LLMsFullPayloadSchema = z.object({
   websiteUrl: z.string().url("Invalid website URL"),
   includeImages: z.boolean().optional(),
   includeLinks: z.boolean().optional(),
   maxDepth: z.number().min(1).max(10).optional(),
   aiEnrichment: z.boolean().optional(),
+  ...CrawlLimitsSchema.shape,
+  ...AISelectionSchema.shape,
+});
+
+export const MarkdownGenerationRequestSchema = z.object({
+  websiteUrl: z.string().url("Invalid website URL"),
+  // "zip" downloads the pages as an archive instead of inline JSON
+  format: z.enum(["json", "zip"]).optional(),
+  // Already generated files to bundle; generated from the crawl when missing
+  llmsTxt: z.string().optional(),
+  llmsFullTxt: z.string().optional(),
+  llmsTxtFormat: LlmsTxtFormatSchema.optional(),
+  ...AISelectionSchema.shape,
+});
+
+export const RobotsTxtGenerationRequestSchema = z
+  .object({
+    websiteUrl: z.string().url("Invalid website URL").optional(),
+    paths: z.array(
+      z.object({
+        path: z.string().startsWith("/", "Paths must start with /"),
+        allow: z.boolean(),
+      })
+    ),
+    bots: z.array(LLMBotSchema).min(1, "At least one bot must be selected"),
+    // Per-bot overrides applied on top of the shared path selections
+    botRules: z
+      .array(
+        z.object({
+          bot: LLMBotSchema,
+          path: z.string().startsWith("/", "Paths must start with /"),
+          allow: z.boolean(),
+        })
+      )
+      .optional(),
+    sitemapUrl: z.string().url("Invalid sitemap URL").optional(),
+    mergeWithExisting: z.boolean().optional(),
+    existingRobotsTxt: z.string().optional(),
+  })
+  .refine(
+    (data) =>
+      !data.mergeWithExisting ||
+      data.existingRobotsTxt !== undefined ||
+      !!data.websiteUrl,
+    {
+      message: "websiteUrl or existingRobotsTxt is required to merge",
+      path: ["mergeWithExisting"],
+    }
+  );
+
+export type RobotsTxtGenerationRequest = z.infer<
+  typeof RobotsTxtGenerationRequestSchema
+>;
+
+export const LlmsTxtValidationRequestSchema = z
+  .object({
+    url: z.string().url("Invalid URL").optional(),
+    content: z.string().optional(),
+    // Site to check links against; defaults to the origin of `url`
+    websiteUrl: z.string().url("Invalid website URL").optional(),
+    checkLinks: z.boolean().optional(),
+    maxPages: z.number().int().min(1).max(1000).optional(),
+  })
+  .refine((data) => !!data.url !== (data.content !== undefined), {
+    message: "Provide either url or content",
+    path: ["url"],
+  });
+
+export const JobRequestSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("analyze-website"),
+    payload: WebsiteAnalysisRequestSchema,
+  }),
+  z.object({
+    type: z.literal("llms-full"),
+    payload: LLMsFullPayloadSchema,
+  }),
+  z.object({
+    type: z.literal("markdown"),
+    payload: z.object({
+      websiteUrl: z.string().url("Invalid website URL"),
+      ...AISelectionSchema.shape,
+    }),
+  }),
+]);
+
+export type JobRequest = z.infer<typeof JobRequestSchema>;
+
+// What an API key may be used for; browser (JWT) sessions can do everything
+export const API_KEY_SCOPES = ["analyze", "generate", "read-history"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const ApiKeyRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+});
+
+export type ApiKeyRequest = z.infer<typeof ApiKeyRequestSchema>;
+
+export interface ApiKeyResponse {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  key?: string; // Only returned when the key is created
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export const WEBHOOK_EVENTS = [
+  "crawl.completed",
+  "crawl.failed",
+  "llms.changed",
+  "job.cancelled",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WebhookRequestSchema = z.object({
+  url: z
+    .string()
+    .url("Invalid webhook URL")
+    .refine((url) => /^https?:\/\//i.test(url), "Webhook URL must be http(s)")
+    .refine(
+      (url) => !isInternalHost(new URL(url).hostname),
+      "Webhook URL must not point to a local or private network address"
+    ),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  enabled: z.boolean().optional(),
+});
+
+export type WebhookRequest = z.infer<typeof WebhookRequestSchema>;
+
+// Loopback, private, link-local and unspecified hosts, which webhooks could
+// otherwise use to reach the server's own network
+function isInternalHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (
+    host === "localhost" ||
+    /\.(localhost|local|internal)$/.test(host) ||
+    (!host.includes(".") && !isIP(host))
+  ) {
+    return true;
+  }
+  if (isIP(host) === 4) {
+    const [a, b] = host.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+  if (isIP(host) === 6) {
+    // IPv4-mapped addresses are rejected too, as URL parsing writes them in hex
+    return (
+      host === "::" ||
+      host === "::1" ||
+      /^f[cd]/.test(host) ||
+      /^fe[89ab]/.test(host) ||
+      host.startsWith("::ffff:")
+    );
+  }
+  return false;
+}
+
+export interface WebhookResponse {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  secret?: string; // Only returned when the webhook is created
+  createdAt: string;
+}
+
+export interface WebhookDeliveryResponse {
+  id: string;
+  event: WebhookEvent;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  nextAttemptAt?: string;
+  lastStatusCode?: number;
+  lastError?: string;
+  payload: unknown;
+  createdAt: string;
+  deliveredAt?: string;
+}
+
+// Tokens and estimated cost of a set of LLM calls
+export interface AIUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number; // USD, from the AI price table
+}
+
+// Monthly token and cost limits; unset means unlimited
+export const AIUsageCapsSchema = z.object({
+  monthlyTokens: z.number().int().positive().nullable().optional(),
+  monthlyCost: z.number().positive().nullable().optional(),
+});
+
+export type AIUsageCaps = z.infer<typeof AIUsageCapsSchema>;
+
+export const AIUsageQuerySchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be YYYY-MM")
+    .optional(),
+});
+
+export interface AIUsageResponse {
+  month: string; // YYYY-MM, UTC
+  totals: AIUsageTotals;
+  byModel: Array<AIUsageTotals & { provider: LLMProviderName; model: string }>;
+  caps: { monthlyTokens?: number; monthlyCost?: number };
+  capReached: boolean;
+}
+
+// Filters for purging the AI enrichment cache; none purges everything
+export const AICachePurgeSchema = z.object({
+  provider: LLMProviderNameSchema.optional(),
+  model: z.string().min(1).optional(),
+  promptVersion: z.string().min(1).optional(),
+});
+
+export type AICachePurge = z.infer<typeof AICachePurgeSchema>;
+
+export interface AICacheStats {
+  enabled: boolean;
+  ttlHours: number;
+  entries: number;
+  // Lookups since the server started
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+// `cron` defaults to CRON_SCHEDULE; runs use the analyze-website pipeline
+export const ScheduleRequestSchema = z.object({
+  url: z.string().url("Invalid URL format"),
+  cron: z.string().min(1).max(100).optional(),
+  timezone: z.string().min(1).max(64).optional(),
+  enabled: z.boolean().optional(),
+  bots: z.array(LLMBotSchema).min(1).optional(),
+  aiEnrichment: z.boolean().optional(),
+  llmsTxtFormat: LlmsTxtFormatSchema.optional(),
+  ...CrawlLimitsSchema.shape,
+  ...AISelectionSchema.shape,
 });
 
+export type ScheduleRequest = z.infer<typeof ScheduleRequestSchema>;
+
+export interface ScheduleResponse {
+  id: string;
+  url: string;
+  cron: string;
+  timezone: string;
+  enabled: boolean;
+  payload: WebsiteAnalysisRequest & { llmsTxtFormat?: LlmsTxtFormat };
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastJobId?: string;
+  createdAt: string;
+}
+export type JobType = JobRequest["type"];
+
+export interface JobResponse {
+  id: string;
+  type: JobType;
+  status: "queued" | "running" | "completed" | "failed" | "cancelled";
+  url: string;
+  progress: { percent: number; message?: string };
+  attempts: number;
+  maxAttempts: number;
+  error?: string;
+  result?: unknown;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
 // Type for LLM bot configurations
 export interface LLMBotConfig {
   name: LLMBot;